@@ -0,0 +1,27 @@
+import { IPivotConfig, IPivotData, IPivotSource, transformToPivot } from "./PivotEngine";
+
+/**
+ * Wraps a PCF dataset as a pivot source. The dataset's columns and records already have the
+ * shape the engine reads, so they are passed on as they are.
+ */
+export function createDataSetSource(dataset: ComponentFramework.PropertyTypes.DataSet): IPivotSource {
+    return {
+        columns: dataset.columns,
+        records: dataset.records,
+        sortedRecordIds: dataset.sortedRecordIds
+    };
+}
+
+/**
+ * Transforms a PCF dataset into pivot table structure (see transformToPivot)
+ * @param dataset The PCF dataset from context.parameters
+ * @param config Configuration for grouping and aggregation
+ * @param recordLimit Maximum number of records (in view order) to include
+ */
+export function transformDatasetToPivot(
+    dataset: ComponentFramework.PropertyTypes.DataSet,
+    config: IPivotConfig,
+    recordLimit?: number
+): IPivotData {
+    return transformToPivot(createDataSetSource(dataset), config, recordLimit);
+}
@@ -0,0 +1,2906 @@
+/**
+ * Headless pivot engine: groups records by row and column fields and aggregates measures into
+ * cells, subtotals and totals. It does not depend on the PCF runtime or React, so the same
+ * aggregation rules run on a PCF dataset (see DataSetAdapter) and on plain record arrays
+ * (see createRecordSource), e.g. in other controls, Node scripts or fixture checks.
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Joins the ids of each hierarchy level into a single group key
+const GROUP_PATH_SEPARATOR = '\u001f';
+
+// Joins a row key and a column key into a cell key. Group ids are escaped (see encodeGroupId),
+// so neither separator can appear inside an id.
+const CELL_KEY_SEPARATOR = '\u001e';
+
+// Position of the total row and the total column in a measure's buckets (see createKeyedValues)
+const TOTAL_INDEX = -1;
+
+// Percentile used when the maker leaves Percentile empty
+export const DEFAULT_PERCENTILE = 90;
+
+// Id reported in the selection outputs for the group that Top N folds the remaining groups into
+const OTHER_GROUP_ID = '(Other)';
+
+// ============================================================================
+// INTERFACES
+// ============================================================================
+
+export type AggregationType = 'SUM' | 'AVG' | 'MIN' | 'MAX' | 'COUNT' |
+    'DISTINCTCOUNT' | 'MEDIAN' | 'PERCENTILE' | 'STDDEV' | 'VARIANCE' | 'CALCULATED';
+
+/**
+ * How aggregated values are presented: as-is, as a share of a total, accumulated or
+ * compared across columns, or ranked. Applied after aggregation (see applyShowValuesAs).
+ */
+export type ShowValuesAs = 'VALUE' | 'PERCENT_OF_ROW' | 'PERCENT_OF_COLUMN' | 'PERCENT_OF_GRAND' | 'RUNNING_TOTAL' |
+    'DIFFERENCE' | 'PERCENT_DIFFERENCE' | 'RANK_IN_ROW' | 'RANK_IN_COLUMN';
+
+export type DateGrouping = 'DAY' | 'WEEK' | 'MONTH' | 'QUARTER' | 'YEAR' | 'FISCAL_QUARTER' | 'FISCAL_YEAR' | 'DAY_OF_WEEK';
+
+/**
+ * How sibling groups are ordered: by their natural value (option value, date, number),
+ * by label, or with the labels of a custom order first
+ */
+export type GroupOrder = 'VALUE' | 'LABEL' | 'CUSTOM';
+
+/**
+ * Where a "(Blank)" group goes among its siblings: in group order, pinned first or last,
+ * or left out together with its records
+ */
+export type BlankPlacement = 'SORTED' | 'FIRST' | 'LAST' | 'HIDDEN';
+
+/**
+ * A row or column field as configured by the maker. The date grouping either comes from
+ * the field itself (e.g. "createdon:month") or from the dimension's default.
+ * Split multi-select option sets count a record under each selected option. The blank label
+ * replaces "(Blank)" for records without a value.
+ */
+export interface IGroupFieldConfig {
+    name: string;
+    dateGrouping?: DateGrouping;
+    isExplicitDateGrouping?: boolean;
+    binning?: INumericBinning;
+    groupOrder?: GroupOrder;
+    customOrder?: string[];
+    splitMultiSelect?: boolean;
+    blankPlacement?: BlankPlacement;
+    blankLabel?: string;
+}
+
+/**
+ * Range binning for a numeric row or column field. COUNT binning gets its
+ * min and width from the data once the records are known.
+ */
+export interface INumericBinning {
+    mode: 'WIDTH' | 'COUNT' | 'BREAKPOINTS';
+    width?: number;
+    count?: number;
+    min?: number;
+    breakpoints?: number[];
+}
+
+/**
+ * A measure as configured by the maker. An empty valueField is only valid
+ * for COUNT and counts records. Percentile (0-100) is only used by PERCENTILE.
+ * CALCULATED measures have no value field and are computed from their formula.
+ */
+export interface IMeasureConfig {
+    valueField: string;
+    aggregationType: AggregationType;
+    label: string;
+    percentile?: number;
+    formula?: IFormula;
+}
+
+export type ComparisonOperator = '>' | '>=' | '<' | '<=' | '=' | '<>';
+
+/**
+ * A node of a calculated measure's formula. Fields only appear inside aggregates, where they
+ * are evaluated per record; AGGREGATE nodes refer to the formula's terms by index.
+ */
+export type FormulaNode =
+    | { kind: 'NUMBER'; value: number }
+    | { kind: 'TEXT'; value: string }
+    | { kind: 'BLANK' }
+    | { kind: 'FIELD'; name: string }
+    | { kind: 'AGGREGATE'; term: number }
+    | { kind: 'NEGATE'; operand: FormulaNode }
+    | { kind: 'ARITHMETIC'; operator: '+' | '-' | '*' | '/'; left: FormulaNode; right: FormulaNode }
+    | { kind: 'DIVIDE'; numerator: FormulaNode; denominator: FormulaNode; alternate?: FormulaNode }
+    | { kind: 'COMPARISON'; operator: ComparisonOperator; left: FormulaNode; right: FormulaNode }
+    | { kind: 'LOGICAL'; operator: 'AND' | 'OR'; left: FormulaNode; right: FormulaNode }
+    | { kind: 'NOT'; operand: FormulaNode };
+
+/**
+ * An aggregate call in a formula, e.g. SUM(estimatedvalue * closeprobability / 100) or
+ * COUNTIF(statecode = 1). It is aggregated like a measure over the records that meet its
+ * condition; COUNT terms without an argument count those records.
+ */
+export interface IFormulaTerm {
+    aggregationType: AggregationType;
+    argument?: FormulaNode;
+    condition?: FormulaNode;
+    percentile?: number;
+}
+
+/**
+ * A calculated measure's parsed formula (see parseFormula)
+ */
+export interface IFormula {
+    expression: FormulaNode;
+    terms: IFormulaTerm[];
+}
+
+/**
+ * Locale-aware number and date formatting. The control implements it with the platform
+ * formatting API and the user's settings; browserValueFormatter uses the browser's locale.
+ */
+export interface IValueFormatter {
+    formatInteger(value: number): string;
+    formatDecimal(value: number, precision: number): string;
+    // Symbol of the organization's base currency, used for values without a symbol of their own
+    currencySymbol: string;
+    formatCurrency(value: number, precision: number, symbol?: string): string;
+    // Symbol of a currency by its id (see IPivotConfig.currencyField), when it is known
+    getCurrencySymbol?(currencyId: string): string | undefined;
+    formatDateShort(date: Date): string;
+    formatDateYearMonth(date: Date): string;
+    getDayName(day: number): string;
+    getTimeZoneOffsetMinutes(date: Date): number;
+}
+
+/**
+ * User-facing text by resource key. The control reads it from the .resx resources of the
+ * user's language (see createLocalizer); placeholders {0}, {1}, ... are filled in with the arguments.
+ */
+export interface ILocalizer {
+    getString(key: string, ...args: (string | number)[]): string;
+}
+
+/**
+ * What formatting a value needs beyond the formatter: the field's data type and
+ * precision, and for currency fields the currency symbol. An empty symbol stands for
+ * amounts in several currencies, which are shown without one.
+ */
+export interface IValueFormat {
+    dataType: string;
+    precision?: number;
+    currencySymbol?: string;
+}
+
+/**
+ * Field precisions (decimal places) come from column metadata; fields without one
+ * use two decimals. Empty values count as zero in Sum and Average measures when
+ * emptyValuesAsZero is set, and rows or columns without a value other than zero are
+ * left out when hideEmptyRows or hideEmptyColumns is set.
+ */
+export interface IPivotConfig {
+    groupByRow: IGroupFieldConfig[];
+    groupByColumn: IGroupFieldConfig[];
+    measures: IMeasureConfig[];
+    fiscalYearStartMonth: number;
+    showEmptyPeriods: boolean;
+    formatter?: IValueFormatter;
+    localizer: ILocalizer;
+    fieldPrecisions?: Record<string, number>;
+    rowTopN?: number;
+    columnTopN?: number;
+    emptyValuesAsZero?: boolean;
+    hideEmptyRows?: boolean;
+    hideEmptyColumns?: boolean;
+    // Lookup to each record's currency (e.g. transactioncurrencyid), which tells apart the
+    // currencies of currency values
+    currencyField?: string;
+}
+
+/**
+ * A row or column field resolved against the source. A split field puts records with
+ * several values into several groups (see getGroupValues), so its groups may overlap.
+ */
+export interface IGroupField {
+    column: IPivotColumn;
+    dateGrouping?: DateGrouping;
+    binning?: INumericBinning;
+    precision?: number;
+    groupOrder?: GroupOrder;
+    customOrder?: string[];
+    isSplit?: boolean;
+    blankPlacement?: BlankPlacement;
+    blankLabel?: string;
+}
+
+/**
+ * The group a record falls into at one level. The id identifies the group (a lookup's
+ * record ID, an option value, a date bucket's start), so groups with the same label stay
+ * apart. Groups with a sort value sort by it instead of by label (e.g. option sets by option
+ * value, date buckets chronologically, numeric bins by lower bound).
+ */
+export interface IGroupValue {
+    id: string;
+    label: string;
+    sortValue?: number;
+    isOther?: boolean;
+    isBlank?: boolean;
+}
+
+/**
+ * Running aggregates of the values that fell into a cell or total. Individual values are only
+ * kept for measures that need them (see needsValues); the records behind a cell are kept once,
+ * in the leaf cells beneath it (see getRecordIds).
+ */
+export interface ICellData {
+    count: number;
+    valueCount: number;
+    sum: number;
+    min: number;
+    max: number;
+    mean: number;
+    squaredDeviations: number;
+    values?: number[];
+    distinctKeys?: Set<string>;
+    // Currencies of the currency values, by id (see IPivotConfig.currencyField)
+    currencyIds?: Set<string>;
+    // For calculated measures, one bucket per term of the formula
+    terms?: ICellData[];
+}
+
+/**
+ * A row or column group at one level of the hierarchy.
+ * The key encodes the ids of the full path from the outermost level (see getGroupPathKeys).
+ */
+export interface IPivotGroup {
+    key: string;
+    label: string;
+    sortValue?: number;
+    isOther?: boolean;
+    isBlank?: boolean;
+    level: number;
+    children: IPivotGroup[];
+}
+
+/**
+ * A measure resolved against the source, carrying the value field's data type and precision for formatting
+ */
+export interface IPivotMeasure extends IMeasureConfig {
+    dataType: string;
+    precision?: number;
+}
+
+/**
+ * Values looked up by group or cell key. Aggregates stay in buckets numbered by group position
+ * and are read through their keys rather than copied into maps keyed by string.
+ */
+export interface IKeyedValues<T> {
+    get(key: string): T | undefined;
+    forEach(callback: (value: T, key: string) => void): void;
+}
+
+/**
+ * Aggregated cells and totals for one measure, along with the raw cell and total data they
+ * were computed from. Leaf records are the positions in IPivotData.recordIds of the records
+ * behind each innermost row and column group (see getRecordIds).
+ */
+export interface IMeasureResult {
+    cellData: IKeyedValues<ICellData>;
+    rowData: IKeyedValues<ICellData>;
+    columnData: IKeyedValues<ICellData>;
+    grandData: ICellData;
+    gridData: IKeyedValues<number>;
+    rowTotals: IKeyedValues<number>;
+    columnTotals: IKeyedValues<number>;
+    grandTotal: number | undefined;
+    leafRecords: IKeyedValues<number[]>;
+}
+
+export interface IPivotData {
+    rowKeys: string[];
+    columnKeys: string[];
+    rowGroups: IPivotGroup[];
+    columnGroups: IPivotGroup[];
+    rowDepth: number;
+    columnDepth: number;
+    rowFields: IGroupField[];
+    columnFields: IGroupField[];
+    measures: IPivotMeasure[];
+    results: IMeasureResult[];
+    recordIds: string[];
+    showValuesAs: ShowValuesAs;
+}
+
+// ============================================================================
+// RECORD SOURCES
+// ============================================================================
+
+/**
+ * A column of the records being pivoted. Data types use the platform's names, e.g. "Whole.None",
+ * "Currency", "OptionSet", "DateAndTime.DateOnly" or "Lookup.Simple".
+ */
+export interface IPivotColumn {
+    name: string;
+    displayName: string;
+    dataType: string;
+}
+
+/**
+ * A record being pivoted: its raw values (numbers, Date objects or ISO strings, option values,
+ * entity references) and its values as formatted for users (option labels, lookup names)
+ */
+export interface IPivotRecord {
+    getValue(fieldName: string): unknown;
+    getFormattedValue(fieldName: string): string | null;
+}
+
+/**
+ * The records to pivot, keyed by record ID, and their IDs in the order they are pivoted.
+ * A PCF dataset has this shape.
+ */
+export interface IPivotSource {
+    columns: IPivotColumn[];
+    records: Record<string, IPivotRecord>;
+    sortedRecordIds: string[];
+}
+
+/**
+ * A column of plain records (see createRecordSource). Values are read from the record's
+ * property of the column's name unless the column reads them itself.
+ */
+export interface IRecordColumn<TRecord> {
+    name: string;
+    displayName?: string;
+    dataType: string;
+    getValue?: (record: TRecord) => unknown;
+    getFormattedValue?: (record: TRecord) => string | null | undefined;
+}
+
+/**
+ * Wraps plain records as a pivot source. Records are pivoted in array order; without
+ * getRecordId their IDs are their positions. Formatted values default to the raw value as
+ * text, or the name of an entity reference.
+ */
+export function createRecordSource<TRecord = Record<string, unknown>>(
+    records: TRecord[],
+    columns: IRecordColumn<TRecord>[],
+    getRecordId: (record: TRecord, index: number) => string = (_, index) => String(index)
+): IPivotSource {
+    const columnMap = new Map(columns.map(column => [column.name, column]));
+    const sortedRecordIds = records.map(getRecordId);
+    const pivotRecords: Record<string, IPivotRecord> = {};
+    records.forEach((record, index) => {
+        const getValue = (fieldName: string): unknown => {
+            const column = columnMap.get(fieldName);
+            return column?.getValue ? column.getValue(record) : (record as Record<string, unknown>)[fieldName];
+        };
+        pivotRecords[sortedRecordIds[index]] = {
+            getValue,
+            getFormattedValue: fieldName => {
+                const column = columnMap.get(fieldName);
+                if (column?.getFormattedValue) {
+                    return column.getFormattedValue(record) ?? '';
+                }
+                const rawValue = getValue(fieldName);
+                if (rawValue === null || rawValue === undefined) {
+                    return '';
+                }
+                return typeof rawValue === 'object' && 'name' in rawValue ? String(rawValue.name) : String(rawValue);
+            }
+        };
+    });
+
+    return {
+        columns: columns.map(({ name, displayName, dataType }) => ({ name, displayName: displayName ?? name, dataType })),
+        records: pivotRecords,
+        sortedRecordIds
+    };
+}
+
+/**
+ * Creates a localizer over a lookup of resource strings, e.g. the control's resources or a
+ * parsed .resx file. Keys without a string are shown as they are.
+ */
+export function createLocalizer(getString: (key: string) => string | null | undefined): ILocalizer {
+    return {
+        getString: (key, ...args) => fillPlaceholders(getString(key) || key, args)
+    };
+}
+
+// ============================================================================
+// PIVOT TRANSFORMATION LOGIC
+// ============================================================================
+
+/**
+ * Gets a percentile (0-100) of a set of values, interpolating linearly between
+ * the closest ranks (the same method as Excel's PERCENTILE.INC)
+ */
+export function getPercentile(values: number[], percentile: number): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const rank = (percentile / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    if (lower + 1 >= sorted.length) {
+        return sorted[sorted.length - 1];
+    }
+    return sorted[lower] + (rank - lower) * (sorted[lower + 1] - sorted[lower]);
+}
+
+/**
+ * Gets the sample variance of a cell's values from its running aggregates
+ * @returns The variance, or undefined when there are fewer than two values
+ */
+function getVariance(cellData: ICellData): number | undefined {
+    return cellData.valueCount >= 2 ? cellData.squaredDeviations / (cellData.valueCount - 1) : undefined;
+}
+
+/**
+ * Whether a measure needs every individual value rather than running aggregates
+ */
+function needsValues(measure: Pick<IMeasureConfig, 'aggregationType'>): boolean {
+    return measure.aggregationType === 'MEDIAN' || measure.aggregationType === 'PERCENTILE';
+}
+
+/**
+ * Aggregates the values collected for a cell or total
+ * @returns The aggregated value, or undefined when there is nothing to aggregate
+ */
+function aggregateCellData(
+    cellData: ICellData,
+    measure: Pick<IMeasureConfig, 'aggregationType' | 'percentile' | 'formula'>
+): number | undefined {
+    switch (measure.aggregationType) {
+        case 'COUNT':
+            return cellData.count;
+
+        case 'DISTINCTCOUNT':
+            return cellData.distinctKeys ? cellData.distinctKeys.size : 0;
+
+        case 'SUM':
+            return cellData.sum;
+
+        case 'AVG':
+            // Zero values ARE included in the average; null values were never collected
+            return cellData.valueCount > 0 ? cellData.sum / cellData.valueCount : undefined;
+
+        case 'MIN':
+            return cellData.valueCount > 0 ? cellData.min : undefined;
+
+        case 'MAX':
+            return cellData.valueCount > 0 ? cellData.max : undefined;
+
+        case 'MEDIAN':
+            return cellData.values && cellData.values.length > 0 ? getPercentile(cellData.values, 50) : undefined;
+
+        case 'PERCENTILE':
+            return cellData.values && cellData.values.length > 0
+                ? getPercentile(cellData.values, measure.percentile ?? DEFAULT_PERCENTILE)
+                : undefined;
+
+        case 'STDDEV': {
+            const variance = getVariance(cellData);
+            return variance !== undefined ? Math.sqrt(variance) : undefined;
+        }
+
+        case 'VARIANCE':
+            return getVariance(cellData);
+
+        case 'CALCULATED':
+            return measure.formula ? evaluateFormula(measure.formula, cellData.terms ?? []) : undefined;
+
+        default:
+            return 0;
+    }
+}
+
+/**
+ * Creates an empty cell or total bucket
+ * @param keepValues Whether to keep every value, for measures that need them
+ */
+function createCellData(keepValues: boolean): ICellData {
+    return {
+        count: 0,
+        valueCount: 0,
+        sum: 0,
+        min: Infinity,
+        max: -Infinity,
+        mean: 0,
+        squaredDeviations: 0,
+        values: keepValues ? [] : undefined
+    };
+}
+
+/**
+ * Adds a record's value (or just its presence, for null values) to a cell or total bucket.
+ * Distinct Count measures add the record's distinct key instead of a numeric value.
+ */
+function addToCellData(
+    cellData: ICellData,
+    value: number | undefined,
+    distinctKey?: string,
+    currencyId?: string
+): void {
+    if (value !== undefined) {
+        cellData.valueCount++;
+        cellData.sum += value;
+        cellData.min = Math.min(cellData.min, value);
+        cellData.max = Math.max(cellData.max, value);
+        // Welford's method keeps the variance accurate without storing the values
+        const delta = value - cellData.mean;
+        cellData.mean += delta / cellData.valueCount;
+        cellData.squaredDeviations += delta * (value - cellData.mean);
+        cellData.values?.push(value);
+    }
+    if (currencyId !== undefined) {
+        if (!cellData.currencyIds) {
+            cellData.currencyIds = new Set<string>();
+        }
+        cellData.currencyIds.add(currencyId);
+    }
+    if (distinctKey !== undefined) {
+        if (!cellData.distinctKeys) {
+            cellData.distinctKeys = new Set<string>();
+        }
+        cellData.distinctKeys.add(distinctKey);
+    }
+    cellData.count++;
+}
+
+/**
+ * Gets the cell or total bucket for a key, creating it when missing
+ */
+function getOrCreateCellData<TKey>(map: Map<TKey, ICellData>, key: TKey, keepValues: boolean): ICellData {
+    let cellData = map.get(key);
+    if (!cellData) {
+        cellData = createCellData(keepValues);
+        map.set(key, cellData);
+    }
+    return cellData;
+}
+
+/**
+ * Merges a cell or total bucket into another, as if the other bucket's values had been added
+ * to it one by one (Chan's formula combines their variances)
+ * @returns The target bucket
+ */
+function mergeCellData(target: ICellData, source: ICellData): ICellData {
+    if (source.valueCount > 0) {
+        const valueCount = target.valueCount + source.valueCount;
+        const delta = source.mean - target.mean;
+        target.squaredDeviations += source.squaredDeviations +
+            delta * delta * target.valueCount * source.valueCount / valueCount;
+        target.mean += delta * source.valueCount / valueCount;
+        target.valueCount = valueCount;
+        target.sum += source.sum;
+        target.min = Math.min(target.min, source.min);
+        target.max = Math.max(target.max, source.max);
+    }
+    source.values?.forEach(value => target.values?.push(value));
+    source.currencyIds?.forEach(currencyId => (target.currencyIds ??= new Set<string>()).add(currencyId));
+    source.distinctKeys?.forEach(distinctKey => (target.distinctKeys ??= new Set<string>()).add(distinctKey));
+    if (source.terms) {
+        const terms = target.terms ??= source.terms.map(term => createCellData(!!term.values));
+        source.terms.forEach((term, index) => mergeCellData(terms[index], term));
+    }
+    target.count += source.count;
+    return target;
+}
+
+/**
+ * Reads buckets numbered by row and column group position through their keys (see
+ * IKeyedValues). TOTAL_INDEX stands for the total row or column.
+ * @param getIndexes The row and column positions of a key
+ * @param getKey The key of a row and column position, or undefined when the view leaves it out
+ */
+function createKeyedValues<T>(
+    buckets: Map<number, Map<number, T>>,
+    getIndexes: (key: string) => [number | undefined, number | undefined],
+    getKey: (rowIndex: number, columnIndex: number) => string | undefined
+): IKeyedValues<T> {
+    return {
+        get: key => {
+            const [rowIndex, columnIndex] = getIndexes(key);
+            return rowIndex !== undefined && columnIndex !== undefined ? buckets.get(rowIndex)?.get(columnIndex) : undefined;
+        },
+        forEach: callback => buckets.forEach((rowBuckets, rowIndex) => rowBuckets.forEach((value, columnIndex) => {
+            const key = getKey(rowIndex, columnIndex);
+            if (key !== undefined) {
+                callback(value, key);
+            }
+        }))
+    };
+}
+
+function isNumericDataType(dataType: string): boolean {
+    return dataType === "Whole.None" || 
+           dataType === "Decimal" || 
+           dataType === "Currency" || 
+           dataType === "FP";
+}
+
+export function isDateDataType(dataType: string): boolean {
+    return dataType === "DateAndTime.DateOnly" || 
+           dataType === "DateAndTime.DateAndTime";
+}
+
+// Formats with the browser's locale and time zone when no platform formatter is given
+export const browserValueFormatter: IValueFormatter = {
+    formatInteger: value => new Intl.NumberFormat(undefined, { maximumFractionDigits: 0 }).format(value),
+    formatDecimal: (value, precision) => new Intl.NumberFormat(undefined, {
+        minimumFractionDigits: precision,
+        maximumFractionDigits: precision
+    }).format(value),
+    currencySymbol: '',
+    formatCurrency: (value, precision, symbol) => `${symbol ?? ''}${new Intl.NumberFormat(undefined, {
+        minimumFractionDigits: precision,
+        maximumFractionDigits: precision
+    }).format(value)}`,
+    formatDateShort: date => date.toLocaleDateString(undefined),
+    formatDateYearMonth: date => new Intl.DateTimeFormat(undefined, { month: 'short', year: 'numeric' }).format(date),
+    getDayName: day => new Intl.DateTimeFormat(undefined, { weekday: 'long' }).format(new Date(2024, 0, 7 + day)),
+    getTimeZoneOffsetMinutes: date => -date.getTimezoneOffset()
+};
+
+/**
+ * Fills the {name} placeholders of a text, e.g. {0} with values[0] or {entity} with
+ * values.entity. Placeholders without a value are left as they are.
+ */
+export function fillPlaceholders(text: string, values: Record<string, string | number> | (string | number)[]): string {
+    return text.replace(/\{(\w+)\}/g, (placeholder: string, name: string) => {
+        const value = Array.isArray(values) ? values[Number(name)] : values[name];
+        return value !== undefined ? String(value) : placeholder;
+    });
+}
+
+/**
+ * Converts a raw date value to a Date - PCF may return Date objects or ISO strings
+ */
+function toDate(rawValue: unknown): Date {
+    if (rawValue instanceof Date) {
+        return rawValue;
+    } else if (typeof rawValue === 'string') {
+        return new Date(rawValue);
+    } else if (typeof rawValue === 'number') {
+        return new Date(rawValue);
+    }
+    // Fallback: try to convert to string first, then to date
+    return new Date(String(rawValue));
+}
+
+/**
+ * Converts a date field value to a Date whose local date and time are what the user sees.
+ * Date-only values keep their calendar date in every time zone; date and time values are
+ * shifted into the user's time zone, which may differ from the browser's.
+ */
+export function toUserDate(rawValue: unknown, dataType: string, formatter: IValueFormatter): Date {
+    if (dataType === 'DateAndTime.DateOnly' && typeof rawValue === 'string' && /^\d{4}-\d{2}-\d{2}/.test(rawValue)) {
+        const [year, month, day] = rawValue.slice(0, 10).split('-').map(Number);
+        return new Date(year, month - 1, day);
+    }
+
+    const date = toDate(rawValue);
+    if (isNaN(date.getTime())) {
+        return date;
+    }
+    const userTime = dataType === 'DateAndTime.DateOnly'
+        ? date
+        : new Date(date.getTime() + formatter.getTimeZoneOffsetMinutes(date) * 60000);
+    return new Date(userTime.getUTCFullYear(), userTime.getUTCMonth(), userTime.getUTCDate(),
+        userTime.getUTCHours(), userTime.getUTCMinutes(), userTime.getUTCSeconds());
+}
+
+/**
+ * Format a numeric value based on column data type and aggregation type
+ * Formatting rules:
+ * - COUNT/DISTINCTCOUNT: Always whole numbers
+ * - SUM: Preserves source format (whole->whole, decimal->decimal, currency->currency) and precision
+ * - AVG/MEDIAN/PERCENTILE/STDDEV: Whole->decimal, others preserve format (including dates for MEDIAN/PERCENTILE)
+ * - VARIANCE: Always decimal (squared units are not currency)
+ * - MIN/MAX: Preserves source format including dates
+ */
+export function formatValue(value: number, valueFormat: IValueFormat, aggregationType: AggregationType, formatter: IValueFormatter): string {
+    const { dataType, precision = 2 } = valueFormat;
+
+    // COUNT and DISTINCTCOUNT always return whole numbers regardless of source type
+    if (aggregationType === 'COUNT' || aggregationType === 'DISTINCTCOUNT') {
+        return formatter.formatInteger(Math.round(value));
+    }
+
+    // VARIANCE is in squared units of the source field, so it is never shown as currency
+    if (aggregationType === 'VARIANCE') {
+        return formatter.formatDecimal(value, 2);
+    }
+    
+    // AVERAGE-like results on Whole Number fields return Decimal format (not whole)
+    if ((aggregationType === 'AVG' || aggregationType === 'MEDIAN' || aggregationType === 'PERCENTILE' || aggregationType === 'STDDEV') &&
+        dataType === "Whole.None") {
+        return formatter.formatDecimal(value, 2);
+    }
+    
+    // For all other cases, format based on source data type
+    if (dataType === "Currency") {
+        return valueFormat.currencySymbol === ''
+            ? formatter.formatDecimal(value, precision)
+            : formatter.formatCurrency(value, precision, valueFormat.currencySymbol);
+    } else if (dataType === "Decimal" || dataType === "FP") {
+        return formatter.formatDecimal(value, precision);
+    } else if (dataType === "Whole.None") {
+        return formatter.formatInteger(Math.round(value));
+    } else if (dataType === "DateAndTime.DateOnly" || dataType === "DateAndTime.DateAndTime") {
+        // Value is stored as milliseconds timestamp, convert back to the date the user sees
+        return formatter.formatDateShort(toUserDate(value, dataType, formatter));
+    }
+    return String(value);
+}
+
+/**
+ * Gets the start of the date bucket a date falls into. Day of Week is not a period
+ * and is handled separately by getDateGroupValue.
+ */
+function getDateBucketStart(date: Date, dateGrouping: DateGrouping, fiscalYearStartMonth: number): Date {
+    const year = date.getFullYear();
+    const month = date.getMonth();
+    const fiscalStartMonthIndex = fiscalYearStartMonth - 1;
+    const fiscalStartYear = month >= fiscalStartMonthIndex ? year : year - 1;
+
+    switch (dateGrouping) {
+        case 'YEAR':
+            return new Date(year, 0, 1);
+        case 'QUARTER':
+            return new Date(year, month - (month % 3), 1);
+        case 'MONTH':
+            return new Date(year, month, 1);
+        case 'WEEK': {
+            // Weeks start on Monday (ISO 8601)
+            const daysSinceMonday = (date.getDay() + 6) % 7;
+            return new Date(year, month, date.getDate() - daysSinceMonday);
+        }
+        case 'FISCAL_YEAR':
+            return new Date(fiscalStartYear, fiscalStartMonthIndex, 1);
+        case 'FISCAL_QUARTER': {
+            const monthsIntoFiscalYear = (month - fiscalStartMonthIndex + 12) % 12;
+            return new Date(fiscalStartYear, fiscalStartMonthIndex + monthsIntoFiscalYear - (monthsIntoFiscalYear % 3), 1);
+        }
+        default:
+            return new Date(year, month, date.getDate());
+    }
+}
+
+/**
+ * Gets the start of the date bucket following the one starting at bucketStart
+ */
+export function getNextDateBucketStart(bucketStart: Date, dateGrouping: DateGrouping): Date {
+    const year = bucketStart.getFullYear();
+    const month = bucketStart.getMonth();
+    const day = bucketStart.getDate();
+
+    switch (dateGrouping) {
+        case 'YEAR':
+        case 'FISCAL_YEAR':
+            return new Date(year + 1, month, 1);
+        case 'QUARTER':
+        case 'FISCAL_QUARTER':
+            return new Date(year, month + 3, 1);
+        case 'MONTH':
+            return new Date(year, month + 1, 1);
+        case 'WEEK':
+            return new Date(year, month, day + 7);
+        default:
+            return new Date(year, month, day + 1);
+    }
+}
+
+/**
+ * Builds the locale-aware label of the date bucket starting at bucketStart
+ */
+function getDateBucketLabel(
+    bucketStart: Date,
+    dateGrouping: DateGrouping,
+    fiscalYearStartMonth: number,
+    formatter: IValueFormatter,
+    localizer: ILocalizer
+): string {
+    const year = bucketStart.getFullYear();
+    const month = bucketStart.getMonth();
+    // Fiscal years are named after the calendar year they end in
+    const fiscalYear = fiscalYearStartMonth === 1 ? year : (month >= fiscalYearStartMonth - 1 ? year + 1 : year);
+
+    switch (dateGrouping) {
+        case 'YEAR':
+            return String(year);
+        case 'QUARTER':
+            return localizer.getString('DateBucket_Quarter', Math.floor(month / 3) + 1, year);
+        case 'MONTH':
+            return formatter.formatDateYearMonth(bucketStart);
+        case 'WEEK':
+            return localizer.getString('DateBucket_Week', formatter.formatDateShort(bucketStart));
+        case 'FISCAL_YEAR':
+            return localizer.getString('DateBucket_FiscalYear', fiscalYear);
+        case 'FISCAL_QUARTER':
+            return localizer.getString('DateBucket_FiscalQuarter', fiscalYear,
+                Math.floor(((month - (fiscalYearStartMonth - 1) + 12) % 12) / 3) + 1);
+        default:
+            return formatter.formatDateShort(bucketStart);
+    }
+}
+
+/**
+ * Gets the bucket a date value falls into, sorted chronologically by the bucket start
+ */
+function getDateGroupValue(
+    date: Date,
+    dateGrouping: DateGrouping,
+    fiscalYearStartMonth: number,
+    formatter: IValueFormatter,
+    localizer: ILocalizer
+): IGroupValue {
+    if (dateGrouping === 'DAY_OF_WEEK') {
+        // Sort by position in the week, starting on Monday
+        const dayOfWeek = (date.getDay() + 6) % 7;
+        return {
+            id: String(dayOfWeek),
+            label: formatter.getDayName(date.getDay()),
+            sortValue: dayOfWeek
+        };
+    }
+
+    const bucketStart = getDateBucketStart(date, dateGrouping, fiscalYearStartMonth);
+    return {
+        id: String(bucketStart.getTime()),
+        label: getDateBucketLabel(bucketStart, dateGrouping, fiscalYearStartMonth, formatter, localizer),
+        sortValue: bucketStart.getTime()
+    };
+}
+
+/**
+ * Parses a bin boundary, accepting k/m/b suffixes (e.g. "10k", "1.5M")
+ */
+function parseBinNumber(text: string): number {
+    const match = /^(-?\d+(?:\.\d+)?)\s*([kmb]?)$/i.exec(text.trim());
+    if (!match) {
+        return NaN;
+    }
+    const multipliers: Record<string, number> = { '': 1, 'k': 1e3, 'm': 1e6, 'b': 1e9 };
+    return Number(match[1]) * multipliers[match[2].toLowerCase()];
+}
+
+/**
+ * Parses a numeric binning definition:
+ * - "width:10000" for fixed-width bins
+ * - "count:5" for a fixed number of equal-width bins spanning the data
+ * - breakpoints such as "0-10k, 10k-50k, 50k+" or "0, 10000, 50000"
+ */
+export function parseNumericBinning(value: string, localizer: ILocalizer): INumericBinning {
+    const definition = value.trim();
+    const modeMatch = /^(width|count)\s*:\s*(.+)$/i.exec(definition);
+
+    if (modeMatch) {
+        const amount = parseBinNumber(modeMatch[2]);
+        if (modeMatch[1].toLowerCase() === 'width') {
+            if (!(amount > 0)) {
+                throw new Error(localizer.getString('Error_InvalidBinWidth', modeMatch[2]));
+            }
+            return { mode: 'WIDTH', width: amount };
+        }
+        if (!(amount >= 1) || !Number.isInteger(amount)) {
+            throw new Error(localizer.getString('Error_InvalidBinCount', modeMatch[2]));
+        }
+        return { mode: 'COUNT', count: amount };
+    }
+
+    // Every number in the ranges is a breakpoint ("0-10k" contributes 0 and 10k)
+    const breakpoints = new Set<number>();
+    definition.split(',').map(range => range.trim()).filter(range => range.length > 0).forEach(range => {
+        const rangeMatch = /^(-?[\d.]+\s*[kmb]?)\s*-\s*(-?[\d.]+\s*[kmb]?)$/i.exec(range);
+        const bounds = rangeMatch
+            ? [rangeMatch[1], rangeMatch[2]]
+            : [range.replace(/^</, '').replace(/\+$/, '')];
+        bounds.forEach(bound => {
+            const breakpoint = parseBinNumber(bound);
+            if (isNaN(breakpoint)) {
+                throw new Error(localizer.getString('Error_InvalidBinRange', range));
+            }
+            breakpoints.add(breakpoint);
+        });
+    });
+
+    if (breakpoints.size === 0) {
+        throw new Error(localizer.getString('Error_InvalidBinning', definition));
+    }
+    return { mode: 'BREAKPOINTS', breakpoints: Array.from(breakpoints).sort((a, b) => a - b) };
+}
+
+/**
+ * Turns "count" binning into equal-width bins spanning the values of the records being pivoted
+ */
+function resolveNumericBinning(
+    binning: INumericBinning,
+    column: IPivotColumn,
+    source: IPivotSource,
+    recordIds: string[]
+): INumericBinning {
+    if (binning.mode !== 'COUNT') {
+        return binning;
+    }
+
+    let min = Infinity;
+    let max = -Infinity;
+    recordIds.forEach(recordId => {
+        const rawValue = source.records[recordId].getValue(column.name);
+        if (rawValue !== null && rawValue !== undefined && rawValue !== '') {
+            const numericValue = Number(rawValue);
+            if (!isNaN(numericValue)) {
+                min = Math.min(min, numericValue);
+                max = Math.max(max, numericValue);
+            }
+        }
+    });
+
+    if (min === Infinity) {
+        return binning;
+    }
+    return { ...binning, min, width: (max - min) / (binning.count as number) };
+}
+
+/**
+ * Gets the bin a numeric value falls into, labelled with the field's own formatting and
+ * sorted by the bin's lower bound
+ */
+function getNumericGroupValue(value: number, binning: INumericBinning, field: IGroupField, formatter: IValueFormatter): IGroupValue {
+    const format = (bound: number): string =>
+        formatValue(bound, { dataType: field.column.dataType, precision: field.precision }, 'SUM', formatter);
+    const range = (lower: number, upper: number): IGroupValue => ({
+        id: String(lower),
+        label: `${format(lower)} – ${format(upper)}`,
+        sortValue: lower
+    });
+
+    if (binning.mode === 'BREAKPOINTS') {
+        const breakpoints = binning.breakpoints as number[];
+        if (value < breakpoints[0]) {
+            return { id: '<', label: `< ${format(breakpoints[0])}`, sortValue: -Number.MAX_VALUE };
+        }
+        let index = breakpoints.length - 1;
+        while (value < breakpoints[index]) {
+            index--;
+        }
+        return index === breakpoints.length - 1
+            ? { id: String(breakpoints[index]), label: `${format(breakpoints[index])}+`, sortValue: breakpoints[index] }
+            : range(breakpoints[index], breakpoints[index + 1]);
+    }
+
+    if (binning.mode === 'COUNT') {
+        const min = binning.min as number;
+        const width = binning.width as number;
+        if (!(width > 0)) {
+            // Every record has the same value: a single bin
+            return { id: String(min), label: format(min), sortValue: min };
+        }
+        // The last bin includes the maximum value
+        const index = Math.min((binning.count as number) - 1, Math.floor((value - min) / width));
+        return range(min + index * width, min + (index + 1) * width);
+    }
+
+    const width = binning.width as number;
+    const lower = Math.floor(value / width) * width;
+    return range(lower, lower + width);
+}
+
+/**
+ * Gets a comparable key for a non-empty raw field value: the record ID for lookups,
+ * the option value for option sets, the timestamp for dates, the value otherwise
+ */
+function getRawValueKey(rawValue: unknown): string {
+    const toKey = (value: unknown): string => {
+        if (value instanceof Date) {
+            return String(value.getTime());
+        }
+        if (typeof value === 'object' && value !== null && 'id' in value) {
+            // Entity reference: compare by record ID, not by name
+            const id = (value as { id: { guid?: string } | string }).id;
+            return typeof id === 'string' ? id : String(id.guid);
+        }
+        return String(value);
+    };
+
+    // Multi-select option sets and party lists hold several values
+    return Array.isArray(rawValue) ? rawValue.map(toKey).sort().join(';') : toKey(rawValue);
+}
+
+// Id of the group of records without a value
+export const BLANK_GROUP_ID = '';
+
+/**
+ * Gets the label of a field's blank values: its blank label if it has one, otherwise "(Blank)"
+ */
+function getBlankLabel(field: IGroupField, localizer: ILocalizer): string {
+    return field.blankLabel || localizer.getString('Blank');
+}
+
+/**
+ * Gets the group of records without a value
+ */
+function getBlankGroupValue(field: IGroupField, localizer: ILocalizer): IGroupValue {
+    return { id: BLANK_GROUP_ID, label: getBlankLabel(field, localizer), isBlank: true };
+}
+
+/**
+ * Gets the group id, label and sort value for a record at one row or column level.
+ * OptionSets and Lookups are labelled with their formatted value and identified by option
+ * value or record ID, and option sets sort by option value unless ordered by label. Dates
+ * fall into date buckets, binned numbers into bins, and other values group by raw value.
+ */
+export function getGroupValue(
+    record: IPivotRecord,
+    field: IGroupField,
+    fiscalYearStartMonth: number,
+    formatter: IValueFormatter,
+    localizer: ILocalizer
+): IGroupValue {
+    const column = field.column;
+    const rawValue = record.getValue(column.name) as unknown;
+    if (column.dataType === "OptionSet" || column.dataType === "TwoOptions" || 
+        column.dataType === "MultiSelectOptionSet" ||
+        column.dataType === "Lookup.Simple" || column.dataType === "Lookup.Customer" ||
+        column.dataType === "Lookup.Owner" || column.dataType === "Lookup.PartyList" ||
+        column.dataType === "Lookup.Regarding") {
+        const label = record.getFormattedValue(column.name);
+        if (rawValue === null || rawValue === undefined || rawValue === '') {
+            // An empty value the platform still formats (e.g. a default label) is in the blank
+            // group, which keeps that text as its label unless the field has a blank label
+            const blankGroup = getBlankGroupValue(field, localizer);
+            return label && !field.blankLabel ? { ...blankGroup, label } : blankGroup;
+        }
+        const isSortedByValue = (column.dataType === "OptionSet" || column.dataType === "TwoOptions") &&
+            field.groupOrder !== 'LABEL';
+        return {
+            id: getRawValueKey(rawValue),
+            label: label || getBlankLabel(field, localizer),
+            sortValue: isSortedByValue ? Number(rawValue) : undefined
+        };
+    }
+
+    if (rawValue === null || rawValue === undefined || rawValue === '') {
+        return getBlankGroupValue(field, localizer);
+    }
+
+    if (field.dateGrouping) {
+        const date = toUserDate(rawValue, column.dataType, formatter);
+        if (!isNaN(date.getTime())) {
+            return getDateGroupValue(date, field.dateGrouping, fiscalYearStartMonth, formatter, localizer);
+        }
+    }
+
+    if (field.binning) {
+        const numericValue = Number(rawValue);
+        if (!isNaN(numericValue)) {
+            return getNumericGroupValue(numericValue, field.binning, field, formatter);
+        }
+    }
+
+    return { id: String(rawValue), label: String(rawValue) };
+}
+
+/**
+ * Gets the groups a record falls into at one level: one, or for a split multi-select option
+ * set one per selected option. The formatted value lists the options' labels in value order,
+ * separated by semicolons.
+ */
+export function getGroupValues(
+    record: IPivotRecord,
+    field: IGroupField,
+    fiscalYearStartMonth: number,
+    formatter: IValueFormatter,
+    localizer: ILocalizer
+): IGroupValue[] {
+    if (!field.isSplit) {
+        return [getGroupValue(record, field, fiscalYearStartMonth, formatter, localizer)];
+    }
+
+    // The selected option values come as an array or as a comma-separated string
+    const rawValue = record.getValue(field.column.name) as unknown;
+    const optionValues = (Array.isArray(rawValue) ? rawValue : String(rawValue ?? '').split(','))
+        .map(value => String(value).trim())
+        .filter(value => value !== '');
+    if (optionValues.length === 0) {
+        return [getBlankGroupValue(field, localizer)];
+    }
+
+    const labels = (record.getFormattedValue(field.column.name) ?? '').split(';').map(label => label.trim());
+    return optionValues.map((value, index) => ({
+        id: value,
+        label: labels.length === optionValues.length && labels[index] ? labels[index] : value,
+        sortValue: field.groupOrder !== 'LABEL' ? Number(value) : undefined
+    }));
+}
+
+/**
+ * Every path of groups a record falls into, given its groups at each level: a single path,
+ * unless a split field puts the record into several groups, which then combine with the
+ * groups of the other levels
+ */
+function getGroupPaths(levels: IGroupValue[][]): IGroupValue[][] {
+    return levels.reduce<IGroupValue[][]>(
+        (paths, values) => paths.flatMap(path => values.map(value => [...path, value])),
+        [[]]
+    );
+}
+
+/**
+ * Escapes a group id so it never contains the key separators, keeping ids distinct.
+ * "(Other)" gets an id that no escaped value can take.
+ */
+function encodeGroupId(value: IGroupValue): string {
+    if (value.isOther) {
+        return '%other';
+    }
+    return value.id
+        .split('%').join('%25')
+        .split(CELL_KEY_SEPARATOR).join('%1e')
+        .split(GROUP_PATH_SEPARATOR).join('%1f');
+}
+
+/**
+ * Builds the encoded group keys for every level of a record's path.
+ * Returns ['Region', 'Region/Territory', ...] (joined ids) so each parent level gets its own key.
+ */
+function getGroupPathKeys(values: IGroupValue[]): string[] {
+    const ids = values.map(encodeGroupId);
+    return ids.map((_, index) => ids.slice(0, index + 1).join(GROUP_PATH_SEPARATOR));
+}
+
+/**
+ * Splits a group key back into the ids of its path, outermost level first
+ */
+export function decodeGroupKey(key: string): string[] {
+    return key.split(GROUP_PATH_SEPARATOR).map(id => id === '%other'
+        ? OTHER_GROUP_ID
+        : id.split('%1e').join(CELL_KEY_SEPARATOR).split('%1f').join(GROUP_PATH_SEPARATOR).split('%25').join('%'));
+}
+
+/**
+ * Gets the key of the cell where a row group and a column group meet
+ */
+export function getCellKey(rowKey: string, columnKey: string): string {
+    return `${rowKey}${CELL_KEY_SEPARATOR}${columnKey}`;
+}
+
+/**
+ * Adds a record's path to a group tree, creating any missing groups along the way
+ */
+function addGroupPath(groups: Map<string, IPivotGroup>, roots: IPivotGroup[], values: IGroupValue[], keys: string[]): void {
+    let siblings = roots;
+    keys.forEach((key, level) => {
+        let group = groups.get(key);
+        if (!group) {
+            const { label, sortValue, isOther, isBlank } = values[level];
+            group = { key, label, sortValue, isOther, isBlank, level, children: [] };
+            groups.set(key, group);
+            siblings.push(group);
+        }
+        siblings = group.children;
+    });
+}
+
+/**
+ * Adds the periods missing between the first and last bucket of each date level,
+ * so a time axis has no gaps. Added groups have no records and render as empty cells.
+ */
+function fillEmptyPeriods(
+    groups: IPivotGroup[],
+    fields: IGroupField[],
+    fiscalYearStartMonth: number,
+    formatter: IValueFormatter,
+    localizer: ILocalizer,
+    parentKey?: string
+): void {
+    if (groups.length === 0) {
+        return;
+    }
+
+    const level = groups[0].level;
+    const dateGrouping = fields[level].dateGrouping;
+
+    if (dateGrouping) {
+        const existingKeys = new Set(groups.map(group => group.key));
+        const addGroup = (value: IGroupValue): void => {
+            const key = parentKey !== undefined ? `${parentKey}${GROUP_PATH_SEPARATOR}${encodeGroupId(value)}` : encodeGroupId(value);
+            if (!existingKeys.has(key)) {
+                existingKeys.add(key);
+                groups.push({ key, label: value.label, sortValue: value.sortValue, level, children: [] });
+            }
+        };
+
+        if (dateGrouping === 'DAY_OF_WEEK') {
+            // Every weekday, starting from a known Monday
+            for (let day = 0; day < 7; day++) {
+                addGroup(getDateGroupValue(new Date(2024, 0, 1 + day), dateGrouping, fiscalYearStartMonth, formatter, localizer));
+            }
+        } else {
+            const bucketStarts = groups
+                .filter(group => group.sortValue !== undefined)
+                .map(group => group.sortValue as number);
+            if (bucketStarts.length > 0) {
+                const last = Math.max(...bucketStarts);
+                for (let bucketStart = new Date(Math.min(...bucketStarts));
+                    bucketStart.getTime() < last;
+                    bucketStart = getNextDateBucketStart(bucketStart, dateGrouping)) {
+                    addGroup(getDateGroupValue(bucketStart, dateGrouping, fiscalYearStartMonth, formatter, localizer));
+                }
+            }
+        }
+    }
+
+    groups.forEach(group => fillEmptyPeriods(group.children, fields, fiscalYearStartMonth, formatter, localizer, group.key));
+}
+
+/**
+ * Compares group labels, numerically when both are numbers
+ */
+function compareGroupLabels(a: string, b: string): number {
+    const aNum = Number(a);
+    const bNum = Number(b);
+    if (!isNaN(aNum) && !isNaN(bNum)) {
+        return aNum - bNum;
+    }
+    return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+/**
+ * Sorts a group tree in place and returns its leaf keys in display order.
+ * Labels listed in the level's custom order come first, in that order. Then groups with
+ * a sort value (e.g. date buckets) sort by it, ahead of groups without one such as "(Blank)";
+ * the rest sort by label. A "(Blank)" group pinned first or last goes there, and the Top N
+ * "(Other)" group always comes last.
+ */
+export function sortGroupTree(groups: IPivotGroup[], fields: IGroupField[]): string[] {
+    const field = groups.length > 0 ? fields[groups[0].level] : undefined;
+    const customOrder = field?.groupOrder === 'CUSTOM'
+        ? (field.customOrder ?? []).map(label => label.toLowerCase())
+        : [];
+    const blankPlacement = field?.blankPlacement;
+    const getCustomPosition = (group: IPivotGroup): number => {
+        const position = customOrder.indexOf(group.label.toLowerCase());
+        return position >= 0 ? position : customOrder.length;
+    };
+
+    groups.sort((a, b) => {
+        if (a.isOther || b.isOther) {
+            return a.isOther ? (b.isOther ? 0 : 1) : -1;
+        }
+        if ((blankPlacement === 'FIRST' || blankPlacement === 'LAST') && (a.isBlank || b.isBlank)) {
+            const blankFirst = blankPlacement === 'FIRST' ? -1 : 1;
+            return a.isBlank ? (b.isBlank ? 0 : blankFirst) : -blankFirst;
+        }
+        if (getCustomPosition(a) !== getCustomPosition(b)) {
+            return getCustomPosition(a) - getCustomPosition(b);
+        }
+        if (a.sortValue !== undefined && b.sortValue !== undefined) {
+            return a.sortValue - b.sortValue;
+        }
+        if (a.sortValue !== undefined || b.sortValue !== undefined) {
+            return a.sortValue !== undefined ? -1 : 1;
+        }
+        return compareGroupLabels(a.label, b.label);
+    });
+
+    const leafKeys: string[] = [];
+    groups.forEach(group => {
+        if (group.children.length === 0) {
+            leafKeys.push(group.key);
+        } else {
+            leafKeys.push(...sortGroupTree(group.children, fields));
+        }
+    });
+    return leafKeys;
+}
+
+/**
+ * Looks up the source columns for an ordered list of row or column fields.
+ * Error messages are worded per kind of field (e.g. Error_RowFieldNotFound).
+ */
+export function findGroupFields(
+    source: IPivotSource,
+    fieldConfigs: IGroupFieldConfig[],
+    fieldKind: 'Row' | 'Column' | 'Slicer',
+    recordIds: string[],
+    fieldPrecisions: Record<string, number>,
+    localizer: ILocalizer
+): IGroupField[] {
+    if (fieldConfigs.length === 0) {
+        throw new Error(localizer.getString(`Error_${fieldKind}FieldNotConfigured`));
+    }
+
+    return fieldConfigs.map(fieldConfig => {
+        const column = source.columns.find(col => col.name === fieldConfig.name);
+        if (!column) {
+            throw new Error(localizer.getString(`Error_${fieldKind}FieldNotFound`, fieldConfig.name));
+        }
+        const groupOptions = {
+            groupOrder: fieldConfig.groupOrder,
+            customOrder: fieldConfig.customOrder,
+            blankPlacement: fieldConfig.blankPlacement,
+            blankLabel: fieldConfig.blankLabel
+        };
+
+        // Binning only applies to numeric fields of the dimension
+        if (isNumericDataType(column.dataType) && fieldConfig.binning) {
+            return {
+                column,
+                binning: resolveNumericBinning(fieldConfig.binning, column, source, recordIds),
+                precision: fieldPrecisions[column.name],
+                ...groupOptions
+            };
+        }
+
+        // Only multi-select option sets can be split into their options
+        if (column.dataType === 'MultiSelectOptionSet' && fieldConfig.splitMultiSelect) {
+            return { column, isSplit: true, ...groupOptions };
+        }
+
+        // Date grouping only applies to date fields; an explicit grouping on any other field is a mistake
+        if (!isDateDataType(column.dataType)) {
+            if (fieldConfig.dateGrouping && fieldConfig.isExplicitDateGrouping) {
+                throw new Error(localizer.getString(`Error_${fieldKind}DateGroupingRequiresDate`, fieldConfig.name, column.dataType));
+            }
+            return { column, ...groupOptions };
+        }
+
+        return { column, dateGrouping: fieldConfig.dateGrouping || 'DAY', ...groupOptions };
+    });
+}
+
+/**
+ * Aggregations that accept a field of the given data type, most useful first.
+ * Without a value field only COUNT applies.
+ */
+export function getAvailableAggregationTypes(dataType: string | undefined): AggregationType[] {
+    if (dataType === undefined) {
+        return ['COUNT'];
+    }
+    if (isNumericDataType(dataType)) {
+        return ['SUM', 'AVG', 'MIN', 'MAX', 'COUNT', 'DISTINCTCOUNT', 'MEDIAN', 'PERCENTILE', 'STDDEV', 'VARIANCE'];
+    }
+    if (isDateDataType(dataType)) {
+        return ['COUNT', 'DISTINCTCOUNT', 'MIN', 'MAX', 'MEDIAN', 'PERCENTILE'];
+    }
+    return ['COUNT', 'DISTINCTCOUNT'];
+}
+
+/**
+ * Looks up a measure's value field and validates it against the aggregation type
+ */
+function resolveMeasure(
+    source: IPivotSource,
+    measure: IMeasureConfig,
+    fieldPrecisions: Record<string, number>,
+    localizer: ILocalizer
+): IPivotMeasure {
+    // Calculated measures check the fields of their formula and show their values as decimals
+    if (measure.formula) {
+        validateFormulaFields(source, measure, measure.formula, localizer);
+        return { ...measure, dataType: 'Decimal', precision: 2 };
+    }
+
+    // COUNT without a field counts records
+    if (!measure.valueField && measure.aggregationType === 'COUNT') {
+        return { ...measure, dataType: '' };
+    }
+
+    const valueColumn = source.columns.find(col => col.name === measure.valueField);
+    if (!valueColumn) {
+        throw new Error(localizer.getString('Error_ValueFieldNotFound', measure.valueField));
+    }
+
+    // Validate valueField data type based on aggregation type
+    const isNumericField = isNumericDataType(valueColumn.dataType);
+    const isDateField = isDateDataType(valueColumn.dataType);
+
+    if (measure.aggregationType === 'SUM' || measure.aggregationType === 'AVG' ||
+        measure.aggregationType === 'STDDEV' || measure.aggregationType === 'VARIANCE') {
+        if (!isNumericField) {
+            throw new Error(localizer.getString('Error_AggregationRequiresNumber', measure.aggregationType, measure.valueField, valueColumn.dataType));
+        }
+    }
+
+    if (measure.aggregationType === 'MIN' || measure.aggregationType === 'MAX' ||
+        measure.aggregationType === 'MEDIAN' || measure.aggregationType === 'PERCENTILE') {
+        if (!isNumericField && !isDateField) {
+            throw new Error(localizer.getString('Error_AggregationRequiresNumberOrDate', measure.aggregationType, measure.valueField, valueColumn.dataType));
+        }
+    }
+
+    if (measure.aggregationType === 'PERCENTILE') {
+        const percentile = measure.percentile ?? DEFAULT_PERCENTILE;
+        if (!(percentile >= 0 && percentile <= 100)) {
+            throw new Error(localizer.getString('Error_PercentileOutOfRange', measure.label || measure.valueField, percentile));
+        }
+    }
+
+    // DISTINCTCOUNT and COUNT accept any field type
+
+    return { ...measure, dataType: valueColumn.dataType, precision: fieldPrecisions[valueColumn.name] };
+}
+
+/**
+ * Reads a record's value for a measure as a number (dates become timestamps)
+ * @param emptyAsZero Whether an empty field counts as zero in Sum and Average measures
+ * @returns The numeric value, or undefined when the field is empty or the measure counts records
+ */
+function getMeasureValue(
+    record: IPivotRecord,
+    measure: IPivotMeasure,
+    emptyAsZero: boolean
+): number | undefined {
+    if (!measure.valueField || measure.aggregationType === 'DISTINCTCOUNT') {
+        return undefined;
+    }
+
+    const rawValue = record.getValue(measure.valueField);
+    if (rawValue === null || rawValue === undefined) {
+        return emptyAsZero && (measure.aggregationType === 'SUM' || measure.aggregationType === 'AVG') ? 0 : undefined;
+    }
+
+    if (isDateDataType(measure.dataType)) {
+        return toDate(rawValue).getTime();
+    }
+
+    return Number(rawValue);
+}
+
+/**
+ * Reads the currency of a record's currency value from the record's currency lookup.
+ * Base currency twins (e.g. estimatedvalue_base) are all in the base currency.
+ * @returns The currency id, or undefined when the value or its currency is empty
+ */
+function getCurrencyId(
+    record: IPivotRecord,
+    measure: IPivotMeasure,
+    currencyField: string
+): string | undefined {
+    if (measure.valueField.endsWith('_base')) {
+        return undefined;
+    }
+    const value = record.getValue(measure.valueField) as unknown;
+    const currency = record.getValue(currencyField) as unknown;
+    if (value === null || value === undefined || currency === null || currency === undefined || currency === '') {
+        return undefined;
+    }
+    return getRawValueKey(currency);
+}
+
+/**
+ * Reads a record's value for a Distinct Count measure as a comparable key:
+ * the record ID for lookups, the option value for option sets, the raw value otherwise
+ * @returns The key, or undefined when the field is empty
+ */
+function getDistinctKey(
+    record: IPivotRecord,
+    measure: IPivotMeasure
+): string | undefined {
+    const rawValue = record.getValue(measure.valueField) as unknown;
+    if (rawValue === null || rawValue === undefined || rawValue === '') {
+        return undefined;
+    }
+    return getRawValueKey(rawValue);
+}
+
+/**
+ * Whether a field can be used in formula arithmetic: numbers, and option sets and
+ * Yes/No fields by their option value
+ */
+function isFormulaNumericDataType(dataType: string): boolean {
+    return isNumericDataType(dataType) || dataType === 'OptionSet' || dataType === 'TwoOptions';
+}
+
+/**
+ * Checks that every field of a calculated measure's formula is a source column, and that
+ * fields used as numbers have a numeric type. Fields compared with text or BLANK(), and the
+ * argument of COUNT or DISTINCTCOUNT, can be of any type.
+ */
+function validateFormulaFields(
+    source: IPivotSource,
+    measure: IMeasureConfig,
+    formula: IFormula,
+    localizer: ILocalizer
+): void {
+    const checkNode = (node: FormulaNode, isNumber: boolean): void => {
+        switch (node.kind) {
+            case 'FIELD': {
+                const column = source.columns.find(col => col.name === node.name);
+                if (!column) {
+                    throw new Error(localizer.getString('Error_FormulaFieldNotFound', node.name, measure.label));
+                }
+                if (isNumber && !isFormulaNumericDataType(column.dataType)) {
+                    throw new Error(localizer.getString('Error_FormulaFieldNotNumeric', node.name, measure.label, column.dataType));
+                }
+                break;
+            }
+            case 'NEGATE':
+                checkNode(node.operand, true);
+                break;
+            case 'ARITHMETIC':
+                checkNode(node.left, true);
+                checkNode(node.right, true);
+                break;
+            case 'DIVIDE':
+                [node.numerator, node.denominator, node.alternate].forEach(operand => operand && checkNode(operand, true));
+                break;
+            case 'COMPARISON': {
+                const isTextComparison = [node.left, node.right].some(operand => operand.kind === 'TEXT' || operand.kind === 'BLANK');
+                checkNode(node.left, !isTextComparison);
+                checkNode(node.right, !isTextComparison);
+                break;
+            }
+            case 'LOGICAL':
+                checkNode(node.left, false);
+                checkNode(node.right, false);
+                break;
+            case 'NOT':
+                checkNode(node.operand, false);
+                break;
+        }
+    };
+
+    formula.terms.forEach(term => {
+        if (term.argument) {
+            checkNode(term.argument, term.aggregationType !== 'COUNT' && term.aggregationType !== 'DISTINCTCOUNT');
+        }
+        if (term.condition) {
+            checkNode(term.condition, false);
+        }
+    });
+}
+
+/**
+ * Evaluates the arithmetic of a formula, reading fields or aggregates through getOperand.
+ * Any empty operand makes the result empty, as does dividing by zero with "/";
+ * DIVIDE(a, b, alternate) gives the alternate (or empty) when b is zero or empty.
+ */
+function evaluateFormulaNumber(node: FormulaNode, getOperand: (node: FormulaNode) => number | undefined): number | undefined {
+    const evaluate = (operand: FormulaNode): number | undefined => evaluateFormulaNumber(operand, getOperand);
+    switch (node.kind) {
+        case 'NUMBER':
+            return node.value;
+
+        case 'NEGATE': {
+            const value = evaluate(node.operand);
+            return value !== undefined ? -value : undefined;
+        }
+
+        case 'ARITHMETIC': {
+            const left = evaluate(node.left);
+            const right = evaluate(node.right);
+            if (left === undefined || right === undefined) {
+                return undefined;
+            }
+            switch (node.operator) {
+                case '+':
+                    return left + right;
+                case '-':
+                    return left - right;
+                case '*':
+                    return left * right;
+                default:
+                    return right !== 0 ? left / right : undefined;
+            }
+        }
+
+        case 'DIVIDE': {
+            const denominator = evaluate(node.denominator);
+            if (denominator === undefined || denominator === 0) {
+                return node.alternate ? evaluate(node.alternate) : undefined;
+            }
+            const numerator = evaluate(node.numerator);
+            return numerator !== undefined ? numerator / denominator : undefined;
+        }
+
+        default:
+            return getOperand(node);
+    }
+}
+
+/**
+ * Reads a record's field as a number for formula arithmetic (Yes/No fields as 1 or 0)
+ * @returns The number, or undefined when the field is empty
+ */
+function getFormulaFieldValue(
+    record: IPivotRecord,
+    fieldName: string
+): number | undefined {
+    const rawValue = record.getValue(fieldName) as unknown;
+    if (rawValue === null || rawValue === undefined || rawValue === '') {
+        return undefined;
+    }
+    const value = Number(rawValue);
+    return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Evaluates a term's argument or an operand of a comparison for one record
+ */
+function evaluateRecordNumber(
+    node: FormulaNode,
+    record: IPivotRecord
+): number | undefined {
+    return evaluateFormulaNumber(node, operand =>
+        operand.kind === 'FIELD' ? getFormulaFieldValue(record, operand.name) : undefined);
+}
+
+/**
+ * Whether a comparison's outcome (left minus right, or how their texts order) satisfies its operator
+ */
+function matchesComparison(difference: number, operator: ComparisonOperator): boolean {
+    switch (operator) {
+        case '=':
+            return difference === 0;
+        case '<>':
+            return difference !== 0;
+        case '>':
+            return difference > 0;
+        case '>=':
+            return difference >= 0;
+        case '<':
+            return difference < 0;
+        default:
+            return difference <= 0;
+    }
+}
+
+/**
+ * Evaluates a term's condition for one record. Text compares with a field's formatted value
+ * ignoring case (e.g. statuscode = "Won"); BLANK() matches empty fields. A comparison
+ * with an empty number is never met.
+ */
+function evaluateFormulaCondition(
+    node: FormulaNode,
+    record: IPivotRecord
+): boolean {
+    switch (node.kind) {
+        case 'NOT':
+            return !evaluateFormulaCondition(node.operand, record);
+
+        case 'LOGICAL':
+            return node.operator === 'AND'
+                ? evaluateFormulaCondition(node.left, record) && evaluateFormulaCondition(node.right, record)
+                : evaluateFormulaCondition(node.left, record) || evaluateFormulaCondition(node.right, record);
+
+        case 'COMPARISON': {
+            const { left, right, operator } = node;
+            if (left.kind === 'BLANK' || right.kind === 'BLANK') {
+                const operand = left.kind === 'BLANK' ? right : left;
+                const isBlank = operand.kind === 'FIELD'
+                    ? getRawValueKey(record.getValue(operand.name) ?? '') === ''
+                    : operand.kind === 'BLANK' || (operand.kind !== 'TEXT' && evaluateRecordNumber(operand, record) === undefined);
+                return operator === '=' ? isBlank : operator === '<>' && !isBlank;
+            }
+
+            if (left.kind === 'TEXT' || right.kind === 'TEXT') {
+                const getText = (operand: FormulaNode): string => {
+                    if (operand.kind === 'TEXT') {
+                        return operand.value;
+                    }
+                    if (operand.kind === 'FIELD') {
+                        return record.getFormattedValue(operand.name) ?? '';
+                    }
+                    const value = evaluateRecordNumber(operand, record);
+                    return value !== undefined ? String(value) : '';
+                };
+                return matchesComparison(getText(left).localeCompare(getText(right), undefined, { sensitivity: 'accent' }), operator);
+            }
+
+            const leftValue = evaluateRecordNumber(left, record);
+            const rightValue = evaluateRecordNumber(right, record);
+            return leftValue !== undefined && rightValue !== undefined && matchesComparison(leftValue - rightValue, operator);
+        }
+
+        default:
+            return false;
+    }
+}
+
+/**
+ * A record's input to one term of a calculated measure: its value (none for counts), or its
+ * distinct key for DISTINCTCOUNT
+ */
+interface IFormulaTermInput {
+    value?: number;
+    distinctKey?: string;
+}
+
+/**
+ * Reads a record's input to every term of a formula
+ * @returns One input per term, undefined where the record does not meet the term's condition
+ * or its argument is empty
+ */
+function getFormulaTermInputs(
+    record: IPivotRecord,
+    formula: IFormula
+): (IFormulaTermInput | undefined)[] {
+    return formula.terms.map(term => {
+        if (term.condition && !evaluateFormulaCondition(term.condition, record)) {
+            return undefined;
+        }
+        if (!term.argument) {
+            return {};
+        }
+        // COUNT and DISTINCTCOUNT accept fields of any type, which count whenever they have a value
+        if ((term.aggregationType === 'COUNT' || term.aggregationType === 'DISTINCTCOUNT') && term.argument.kind === 'FIELD') {
+            const rawValue = record.getValue(term.argument.name) as unknown;
+            const distinctKey = rawValue === null || rawValue === undefined ? '' : getRawValueKey(rawValue);
+            if (distinctKey === '') {
+                return undefined;
+            }
+            return term.aggregationType === 'DISTINCTCOUNT' ? { distinctKey } : {};
+        }
+        const value = evaluateRecordNumber(term.argument, record);
+        return value !== undefined ? { value } : undefined;
+    });
+}
+
+/**
+ * Adds a record's term inputs to a calculated measure's cell or total bucket
+ */
+function addToFormulaTerms(
+    cellData: ICellData,
+    formula: IFormula,
+    inputs: (IFormulaTermInput | undefined)[]
+): void {
+    if (!cellData.terms) {
+        cellData.terms = formula.terms.map(term => createCellData(needsValues(term)));
+    }
+    const terms = cellData.terms;
+    inputs.forEach((input, index) => {
+        if (input) {
+            addToCellData(terms[index], input.value, input.distinctKey);
+        }
+    });
+}
+
+/**
+ * Computes a calculated measure for a cell or total from its term buckets
+ * @returns The value, or undefined when it is empty or not a finite number
+ */
+function evaluateFormula(formula: IFormula, terms: ICellData[]): number | undefined {
+    const value = evaluateFormulaNumber(formula.expression, operand => operand.kind === 'AGGREGATE'
+        ? aggregateCellData(terms[operand.term] ?? createCellData(false), formula.terms[operand.term])
+        : undefined);
+    return value !== undefined && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * The groups of one axis: their tree, and their keys numbered by position so aggregates are
+ * kept in buckets indexed by position rather than by string keys. Groups also keep the position
+ * of their first record in the pivoted records, so Top N ranks ties in view order.
+ */
+interface IGroupAxis {
+    groupMap: Map<string, IPivotGroup>;
+    groups: IPivotGroup[];
+    indexes: Map<string, number>;
+    keys: string[];
+    firstRecords: number[];
+}
+
+/**
+ * One measure's buckets by row and column position, with TOTAL_INDEX for the total row and
+ * column, and the positions in the pivoted records of the records behind each leaf cell
+ */
+interface IMeasureBuckets {
+    buckets: Map<number, Map<number, ICellData>>;
+    leafRecords: Map<number, Map<number, number[]>>;
+}
+
+/**
+ * Gets a group's position on its axis, numbering the group when it is new
+ */
+function getGroupIndex(axis: IGroupAxis, key: string, firstRecord: number): number {
+    let index = axis.indexes.get(key);
+    if (index === undefined) {
+        index = axis.keys.length;
+        axis.indexes.set(key, index);
+        axis.keys.push(key);
+        axis.firstRecords.push(firstRecord);
+    }
+    return index;
+}
+
+/**
+ * Adds a record's paths to an axis
+ * @returns The positions of every group the record is in, and of the innermost group of each
+ * path. A record in several groups of a split field is counted once in every group and total.
+ */
+function addGroupPaths(
+    axis: IGroupAxis,
+    paths: IGroupValue[][],
+    position: number
+): { indexes: number[]; leafIndexes: number[] } {
+    const pathIndexes = paths.map(values => {
+        const pathKeys = getGroupPathKeys(values);
+        addGroupPath(axis.groupMap, axis.groups, values, pathKeys);
+        return pathKeys.map(key => getGroupIndex(axis, key, position));
+    });
+    const leafIndexes = pathIndexes.map(path => path[path.length - 1]);
+    return pathIndexes.length === 1
+        ? { indexes: pathIndexes[0], leafIndexes }
+        : { indexes: Array.from(new Set(pathIndexes.flat())), leafIndexes: Array.from(new Set(leafIndexes)) };
+}
+
+/**
+ * Gets the buckets of a row position, creating them when missing
+ */
+function getOrCreateRowBuckets<T>(buckets: Map<number, Map<number, T>>, rowIndex: number): Map<number, T> {
+    let rowBuckets = buckets.get(rowIndex);
+    if (!rowBuckets) {
+        rowBuckets = new Map<number, T>();
+        buckets.set(rowIndex, rowBuckets);
+    }
+    return rowBuckets;
+}
+
+/**
+ * Merges the record positions of two leaf cells, listing each record once in view order
+ */
+function mergeRecordPositions(target: number[], source: number[]): number[] {
+    return Array.from(new Set([...target, ...source])).sort((a, b) => a - b);
+}
+
+/**
+ * Moves the buckets of a group into another group of the same axis, merging them with the
+ * target's buckets
+ */
+function moveGroupBuckets<T>(
+    buckets: Map<number, Map<number, T>>,
+    isRowAxis: boolean,
+    sourceIndex: number,
+    targetIndex: number,
+    merge: (target: T, source: T) => T
+): void {
+    const moveBucket = (rowBuckets: Map<number, T>, index: number, value: T): void => {
+        const existing = rowBuckets.get(index);
+        rowBuckets.set(index, existing !== undefined ? merge(existing, value) : value);
+    };
+
+    if (isRowAxis) {
+        const sourceBuckets = buckets.get(sourceIndex);
+        if (sourceBuckets) {
+            const targetBuckets = getOrCreateRowBuckets(buckets, targetIndex);
+            sourceBuckets.forEach((value, columnIndex) => moveBucket(targetBuckets, columnIndex, value));
+            buckets.delete(sourceIndex);
+        }
+        return;
+    }
+
+    buckets.forEach(rowBuckets => {
+        const value = rowBuckets.get(sourceIndex);
+        if (value !== undefined) {
+            moveBucket(rowBuckets, targetIndex, value);
+            rowBuckets.delete(sourceIndex);
+        }
+    });
+}
+
+/**
+ * Keeps the top N groups of every level within their parent, ranked by the first measure
+ * (highest first), and folds the others into an "(Other)" group. The buckets of the folded
+ * groups, and of their children with the same id, are merged into those of "(Other)", so its
+ * Average is the average of all folded records. A record in several folded groups of a split
+ * field counts in "(Other)" once per group.
+ */
+function foldTopN(
+    axis: IGroupAxis,
+    isRowAxis: boolean,
+    measureBuckets: IMeasureBuckets[],
+    measure: IPivotMeasure,
+    topN: number,
+    otherLabel: string
+): void {
+    const { buckets } = measureBuckets[0];
+    const getTotal = (group: IPivotGroup): number | undefined => {
+        const index = axis.indexes.get(group.key) as number;
+        const cellData = isRowAxis ? buckets.get(index)?.get(TOTAL_INDEX) : buckets.get(TOTAL_INDEX)?.get(index);
+        return aggregateCellData(cellData ?? createCellData(needsValues(measure)), measure);
+    };
+    const moveGroup = (source: IPivotGroup, target: IPivotGroup): void => {
+        const sourceIndex = axis.indexes.get(source.key) as number;
+        const targetIndex = getGroupIndex(axis, target.key, axis.firstRecords[sourceIndex]);
+        axis.firstRecords[targetIndex] = Math.min(axis.firstRecords[targetIndex], axis.firstRecords[sourceIndex]);
+        measureBuckets.forEach(data => {
+            moveGroupBuckets(data.buckets, isRowAxis, sourceIndex, targetIndex, mergeCellData);
+            moveGroupBuckets(data.leafRecords, isRowAxis, sourceIndex, targetIndex, mergeRecordPositions);
+        });
+        axis.groupMap.delete(source.key);
+        axis.indexes.delete(source.key);
+
+        source.children.forEach(child => {
+            const key = `${target.key}${GROUP_PATH_SEPARATOR}${child.key.slice(source.key.length + 1)}`;
+            let targetChild = axis.groupMap.get(key);
+            if (!targetChild) {
+                targetChild = { ...child, key, children: [] };
+                axis.groupMap.set(key, targetChild);
+                target.children.push(targetChild);
+            }
+            moveGroup(child, targetChild);
+        });
+    };
+
+    // Levels are folded outermost first, so "(Other)" is ranked with its siblings' children
+    // once they are merged
+    const otherId = encodeGroupId({ id: '', label: otherLabel, isOther: true });
+    let siblingSets: { parentKey?: string; groups: IPivotGroup[] }[] = [{ groups: axis.groups }];
+    while (siblingSets.length > 0) {
+        siblingSets.forEach(({ parentKey, groups }) => {
+            if (groups.length <= topN) {
+                return;
+            }
+            const ranked = groups
+                .map(group => ({ group, value: getTotal(group), firstRecord: axis.firstRecords[axis.indexes.get(group.key) as number] }))
+                .sort((a, b) => (b.value ?? -Infinity) - (a.value ?? -Infinity) || a.firstRecord - b.firstRecord)
+                .map(({ group }) => group);
+            const other: IPivotGroup = {
+                key: parentKey !== undefined ? `${parentKey}${GROUP_PATH_SEPARATOR}${otherId}` : otherId,
+                label: otherLabel,
+                isOther: true,
+                level: groups[0].level,
+                children: []
+            };
+            axis.groupMap.set(other.key, other);
+            ranked.slice(topN).forEach(group => moveGroup(group, other));
+            groups.splice(0, groups.length, ...ranked.slice(0, topN), other);
+        });
+        siblingSets = siblingSets.flatMap(({ groups }) => groups
+            .filter(group => group.children.length > 0)
+            .map(group => ({ parentKey: group.key, groups: group.children })));
+    }
+}
+
+/**
+ * Removes the groups of an axis that are not shown, and parents whose groups are all removed
+ * @returns The positions of the removed groups, and the parents that lost groups beneath them
+ * (innermost first, the total last) with the positions of the groups they keep
+ */
+function removeGroups(
+    axis: IGroupAxis,
+    isShown: (index: number) => boolean
+): { removedIndexes: number[]; changedGroups: { index: number; shownIndexes: number[] }[] } {
+    const removedIndexes: number[] = [];
+    const changedGroups: { index: number; shownIndexes: number[] }[] = [];
+    const removeFrom = (groups: IPivotGroup[], parentIndex: number): boolean => {
+        let isChanged = false;
+        const shownGroups = groups.filter(group => {
+            const index = axis.indexes.get(group.key) as number;
+            const isParent = group.children.length > 0;
+            if (isParent && removeFrom(group.children, index)) {
+                isChanged = true;
+            }
+            if (isParent ? group.children.length > 0 : isShown(index)) {
+                return true;
+            }
+            removedIndexes.push(index);
+            axis.groupMap.delete(group.key);
+            axis.indexes.delete(group.key);
+            isChanged = true;
+            return false;
+        });
+        groups.splice(0, groups.length, ...shownGroups);
+        if (isChanged) {
+            changedGroups.push({ index: parentIndex, shownIndexes: shownGroups.map(group => axis.indexes.get(group.key) as number) });
+        }
+        return isChanged;
+    };
+    removeFrom(axis.groups, TOTAL_INDEX);
+    return { removedIndexes, changedGroups };
+}
+
+/**
+ * Hides the groups of an axis that are not filled, and parents whose groups are all hidden.
+ * The buckets of the parents left with hidden groups beneath them, and of the totals, are
+ * merged again from the groups shown, so they only count the rows and columns shown. A
+ * record in several shown groups of a split field counts there once per group.
+ * @param filledIndexes Positions of the groups with a value other than zero in a cell or total
+ */
+function hideEmptyGroups(
+    axis: IGroupAxis,
+    isRowAxis: boolean,
+    measureBuckets: IMeasureBuckets[],
+    filledIndexes: Set<number>
+): void {
+    const { removedIndexes: hiddenIndexes, changedGroups } = removeGroups(axis, index => filledIndexes.has(index));
+
+    const mergeBuckets = (cells: (ICellData | undefined)[]): ICellData | undefined => cells.reduce<ICellData | undefined>(
+        (merged, cellData) => cellData ? mergeCellData(merged ?? createCellData(!!cellData.values), cellData) : merged,
+        undefined);
+
+    measureBuckets.forEach(({ buckets, leafRecords }) => {
+        if (isRowAxis) {
+            changedGroups.forEach(({ index, shownIndexes }) => {
+                const rowBuckets = new Map<number, ICellData>();
+                const columnIndexes = new Set(shownIndexes.flatMap(shownIndex => Array.from(buckets.get(shownIndex)?.keys() ?? [])));
+                columnIndexes.forEach(columnIndex => {
+                    const cellData = mergeBuckets(shownIndexes.map(shownIndex => buckets.get(shownIndex)?.get(columnIndex)));
+                    if (cellData) {
+                        rowBuckets.set(columnIndex, cellData);
+                    }
+                });
+                buckets.set(index, rowBuckets);
+            });
+            hiddenIndexes.forEach(index => {
+                buckets.delete(index);
+                leafRecords.delete(index);
+            });
+            return;
+        }
+
+        buckets.forEach(rowBuckets => {
+            changedGroups.forEach(({ index, shownIndexes }) => {
+                const cellData = mergeBuckets(shownIndexes.map(shownIndex => rowBuckets.get(shownIndex)));
+                if (cellData) {
+                    rowBuckets.set(index, cellData);
+                } else {
+                    rowBuckets.delete(index);
+                }
+            });
+            hiddenIndexes.forEach(index => rowBuckets.delete(index));
+        });
+        leafRecords.forEach(rowRecords => hiddenIndexes.forEach(index => rowRecords.delete(index)));
+    });
+}
+
+/**
+ * Transforms records into pivot table structure
+ * @param source The records and their columns (see createRecordSource and createDataSetSource)
+ * @param config Configuration for grouping and aggregation
+ * @param recordLimit Maximum number of records (in view order) to include
+ * @returns Structured pivot data with row and column group trees, and aggregated values and totals per measure
+ */
+export function transformToPivot(
+    source: IPivotSource,
+    config: IPivotConfig,
+    recordLimit?: number
+): IPivotData {
+    // Validate the source
+    if (!source || !source.columns || source.columns.length === 0) {
+        throw new Error(config.localizer.getString('Error_DatasetNotConfigured'));
+    }
+
+    // Pivot the sorted records across all loaded pages, up to the record limit
+    const sortedRecordIds = source.sortedRecordIds || [];
+    const recordIds = recordLimit !== undefined && sortedRecordIds.length > recordLimit
+        ? sortedRecordIds.slice(0, recordLimit)
+        : sortedRecordIds;
+
+    // Find the column definitions
+    const formatter = config.formatter ?? browserValueFormatter;
+    const localizer = config.localizer;
+    const fieldPrecisions = config.fieldPrecisions ?? {};
+    const rowFields = findGroupFields(source, config.groupByRow, 'Row', recordIds, fieldPrecisions, localizer);
+    const columnFields = findGroupFields(source, config.groupByColumn, 'Column', recordIds, fieldPrecisions, localizer);
+    const measures = config.measures.map(measure => resolveMeasure(source, measure, fieldPrecisions, localizer));
+
+    if (measures.length === 0) {
+        throw new Error(localizer.getString('Error_ValueFieldNotConfigured'));
+    }
+
+    const rows: IGroupAxis = { groupMap: new Map(), groups: [], indexes: new Map(), keys: [], firstRecords: [] };
+    const columns: IGroupAxis = { groupMap: new Map(), groups: [], indexes: new Map(), keys: [], firstRecords: [] };
+    const measureBuckets: IMeasureBuckets[] = measures.map(() => ({ buckets: new Map(), leafRecords: new Map() }));
+    const pivotedRecordIds: string[] = [];
+    const currencyField = config.currencyField;
+
+    // Aggregate every record as it is read. Its value goes into the cell of every row/column
+    // level combination (parents give subtotals) and into the row, column and grand total
+    // buckets, so totals are aggregated from the underlying records rather than from cell
+    // results. Only the leaf cells keep the records, by their position in the pivoted records.
+    recordIds.forEach(recordId => {
+        const record = source.records[recordId];
+
+        // Get the value of every measure; null/undefined values are skipped for aggregation
+        // except for COUNT, which still counts the record, and for Sum and Average when empty
+        // values count as zero. Calculated measures include every
+        // record, each term of their formula taking the records it applies to.
+        const inputs = measures.map(measure => {
+            const value = getMeasureValue(record, measure, !!config.emptyValuesAsZero);
+            const distinctKey = measure.aggregationType === 'DISTINCTCOUNT' ? getDistinctKey(record, measure) : undefined;
+            return {
+                value,
+                distinctKey,
+                currencyId: measure.dataType === 'Currency' && currencyField ? getCurrencyId(record, measure, currencyField) : undefined,
+                termInputs: measure.formula ? getFormulaTermInputs(record, measure.formula) : undefined,
+                isIncluded: value !== undefined || distinctKey !== undefined ||
+                    measure.aggregationType === 'COUNT' || measure.aggregationType === 'CALCULATED'
+            };
+        });
+
+        if (!inputs.some(input => input.isIncluded)) {
+            return;
+        }
+
+        // Get the groups for every row and column level. Records in a hidden "(Blank)" group
+        // are left out, so the totals only count the groups shown.
+        const getPaths = (fields: IGroupField[]): IGroupValue[][] => getGroupPaths(fields
+            .map(field => getGroupValues(record, field, config.fiscalYearStartMonth, formatter, localizer)
+                .filter(value => !(value.isBlank && field.blankPlacement === 'HIDDEN'))));
+        const rowPaths = getPaths(rowFields);
+        const columnPaths = getPaths(columnFields);
+        if (rowPaths.length === 0 || columnPaths.length === 0) {
+            return;
+        }
+
+        const position = pivotedRecordIds.length;
+        pivotedRecordIds.push(recordId);
+        const recordRows = addGroupPaths(rows, rowPaths, position);
+        const recordColumns = addGroupPaths(columns, columnPaths, position);
+        const rowIndexes = [...recordRows.indexes, TOTAL_INDEX];
+        const columnIndexes = [...recordColumns.indexes, TOTAL_INDEX];
+
+        measures.forEach((measure, index) => {
+            const { value, distinctKey, currencyId, termInputs, isIncluded } = inputs[index];
+            if (!isIncluded) {
+                return;
+            }
+
+            const keepValues = needsValues(measure);
+            const { buckets, leafRecords } = measureBuckets[index];
+            rowIndexes.forEach(rowIndex => {
+                const rowBuckets = getOrCreateRowBuckets(buckets, rowIndex);
+                columnIndexes.forEach(columnIndex => {
+                    const cellData = getOrCreateCellData(rowBuckets, columnIndex, keepValues);
+                    addToCellData(cellData, value, distinctKey, currencyId);
+                    if (measure.formula && termInputs) {
+                        addToFormulaTerms(cellData, measure.formula, termInputs);
+                    }
+                });
+            });
+            recordRows.leafIndexes.forEach(rowIndex => {
+                const rowRecords = getOrCreateRowBuckets(leafRecords, rowIndex);
+                recordColumns.leafIndexes.forEach(columnIndex => {
+                    const positions = rowRecords.get(columnIndex);
+                    if (positions) {
+                        positions.push(position);
+                    } else {
+                        rowRecords.set(columnIndex, [position]);
+                    }
+                });
+            });
+        });
+    });
+
+    if (config.rowTopN) {
+        foldTopN(rows, true, measureBuckets, measures[0], config.rowTopN, localizer.getString('Other'));
+    }
+    if (config.columnTopN) {
+        foldTopN(columns, false, measureBuckets, measures[0], config.columnTopN, localizer.getString('Other'));
+    }
+
+    // Rows and columns are hidden when no measure has a value other than zero in any of their
+    // cells or totals
+    if (config.hideEmptyRows || config.hideEmptyColumns) {
+        const filledRowIndexes = new Set<number>();
+        const filledColumnIndexes = new Set<number>();
+        measureBuckets.forEach(({ buckets }, index) => buckets.forEach((rowBuckets, rowIndex) =>
+            rowBuckets.forEach((cellData, columnIndex) => {
+                const value = aggregateCellData(cellData, measures[index]);
+                if (value !== undefined && value !== 0) {
+                    filledRowIndexes.add(rowIndex);
+                    filledColumnIndexes.add(columnIndex);
+                }
+            })));
+        if (config.hideEmptyColumns) {
+            hideEmptyGroups(columns, false, measureBuckets, filledColumnIndexes);
+        }
+        if (config.hideEmptyRows) {
+            hideEmptyGroups(rows, true, measureBuckets, filledRowIndexes);
+        }
+
+        // Groups whose records are all in hidden rows or columns are left out as well
+        removeGroups(rows, index => measureBuckets.some(({ buckets }) => buckets.get(index)?.has(TOTAL_INDEX)));
+        removeGroups(columns, index => measureBuckets.some(({ buckets }) => buckets.get(TOTAL_INDEX)?.has(index)));
+    }
+
+    // Periods folded by Top N are in "(Other)", so they are not filled back in; hidden empty
+    // rows and columns would not show them
+    if (config.showEmptyPeriods) {
+        if (!config.rowTopN && !config.hideEmptyRows) {
+            fillEmptyPeriods(rows.groups, rowFields, config.fiscalYearStartMonth, formatter, localizer);
+        }
+        if (!config.columnTopN && !config.hideEmptyColumns) {
+            fillEmptyPeriods(columns.groups, columnFields, config.fiscalYearStartMonth, formatter, localizer);
+        }
+    }
+
+    // The buckets are read by group and cell key through the group positions
+    const getCellIndexes = (cellKey: string): [number | undefined, number | undefined] => {
+        const [rowKey, columnKey] = cellKey.split(CELL_KEY_SEPARATOR);
+        return [rows.indexes.get(rowKey), columns.indexes.get(columnKey)];
+    };
+    const getRowIndexes = (rowKey: string): [number | undefined, number] => [rows.indexes.get(rowKey), TOTAL_INDEX];
+    const getColumnIndexes = (columnKey: string): [number, number | undefined] => [TOTAL_INDEX, columns.indexes.get(columnKey)];
+    const getCellKeyAt = (rowIndex: number, columnIndex: number): string | undefined =>
+        rowIndex !== TOTAL_INDEX && columnIndex !== TOTAL_INDEX ? getCellKey(rows.keys[rowIndex], columns.keys[columnIndex]) : undefined;
+    const getRowKeyAt = (rowIndex: number, columnIndex: number): string | undefined =>
+        rowIndex !== TOTAL_INDEX && columnIndex === TOTAL_INDEX ? rows.keys[rowIndex] : undefined;
+    const getColumnKeyAt = (rowIndex: number, columnIndex: number): string | undefined =>
+        rowIndex === TOTAL_INDEX && columnIndex !== TOTAL_INDEX ? columns.keys[columnIndex] : undefined;
+
+    // Calculate aggregates, keeping only those with a valid aggregated value
+    const aggregateBuckets = (buckets: Map<number, Map<number, ICellData>>, measure: IPivotMeasure): Map<number, Map<number, number>> => {
+        const result = new Map<number, Map<number, number>>();
+        buckets.forEach((rowBuckets, rowIndex) => rowBuckets.forEach((cellData, columnIndex) => {
+            const aggregatedValue = aggregateCellData(cellData, measure);
+            if (aggregatedValue !== undefined) {
+                getOrCreateRowBuckets(result, rowIndex).set(columnIndex, aggregatedValue);
+            }
+        }));
+        return result;
+    };
+
+    const results: IMeasureResult[] = measureBuckets.map(({ buckets, leafRecords }, index) => {
+        const measure = measures[index];
+        const aggregates = aggregateBuckets(buckets, measure);
+        const grandData = buckets.get(TOTAL_INDEX)?.get(TOTAL_INDEX) ?? createCellData(needsValues(measure));
+        return {
+            cellData: createKeyedValues(buckets, getCellIndexes, getCellKeyAt),
+            rowData: createKeyedValues(buckets, getRowIndexes, getRowKeyAt),
+            columnData: createKeyedValues(buckets, getColumnIndexes, getColumnKeyAt),
+            grandData,
+            gridData: createKeyedValues(aggregates, getCellIndexes, getCellKeyAt),
+            rowTotals: createKeyedValues(aggregates, getRowIndexes, getRowKeyAt),
+            columnTotals: createKeyedValues(aggregates, getColumnIndexes, getColumnKeyAt),
+            grandTotal: grandData.count > 0 ? aggregateCellData(grandData, measure) : undefined,
+            leafRecords: createKeyedValues(leafRecords, getCellIndexes, getCellKeyAt)
+        };
+    });
+
+    // Siblings are sorted within each level of the hierarchy
+    const rowKeys = sortGroupTree(rows.groups, rowFields);
+    const columnKeys = sortGroupTree(columns.groups, columnFields);
+
+    return {
+        rowKeys,
+        columnKeys,
+        rowGroups: rows.groups,
+        columnGroups: columns.groups,
+        rowDepth: rowFields.length,
+        columnDepth: columnFields.length,
+        rowFields,
+        columnFields,
+        measures,
+        results,
+        recordIds: pivotedRecordIds,
+        showValuesAs: 'VALUE'
+    };
+}
+
+/**
+ * Gets the records behind a cell, subtotal or total of a measure, in view order, from the leaf
+ * cells beneath it. A record in several groups of a split field is listed once.
+ * @param rowKey The row group, or undefined for the total row
+ * @param columnKey The column group, or undefined for the row totals
+ */
+export function getRecordIds(pivotData: IPivotData, measureIndex: number, rowKey?: string, columnKey?: string): string[] {
+    const isWithin = (leafKey: string, groupKey: string | undefined): boolean =>
+        groupKey === undefined || leafKey === groupKey || leafKey.startsWith(`${groupKey}${GROUP_PATH_SEPARATOR}`);
+    const positions = new Set<number>();
+    pivotData.results[measureIndex].leafRecords.forEach((recordPositions, cellKey) => {
+        const [leafRowKey, leafColumnKey] = cellKey.split(CELL_KEY_SEPARATOR);
+        if (isWithin(leafRowKey, rowKey) && isWithin(leafColumnKey, columnKey)) {
+            recordPositions.forEach(position => positions.add(position));
+        }
+    });
+    return Array.from(positions).sort((a, b) => a - b).map(position => pivotData.recordIds[position]);
+}
+
+/**
+ * Whether Show Values As applies to a measure. Measures whose values are dates
+ * (e.g. Min of Created On) are always shown as-is.
+ */
+export function isShowValuesAsApplicable(measure: IPivotMeasure): boolean {
+    return !isDateDataType(measure.dataType) ||
+        measure.aggregationType === 'COUNT' || measure.aggregationType === 'DISTINCTCOUNT';
+}
+
+/**
+ * Group keys per hierarchy level, each level in display order
+ */
+export function getGroupKeysByLevel(groups: IPivotGroup[]): string[][] {
+    const levels: string[][] = [];
+    const visit = (group: IPivotGroup): void => {
+        (levels[group.level] ??= []).push(group.key);
+        group.children.forEach(visit);
+    };
+    groups.forEach(visit);
+    return levels;
+}
+
+/**
+ * Labels of every group's full path, e.g. "West > Seattle", by group key
+ */
+export function getGroupPathLabels(groups: IPivotGroup[]): Map<string, string> {
+    const labels = new Map<string, string>();
+    const visit = (group: IPivotGroup, parentLabel?: string): void => {
+        const label = parentLabel !== undefined ? `${parentLabel} > ${group.label}` : group.label;
+        labels.set(group.key, label);
+        group.children.forEach(child => visit(child, label));
+    };
+    groups.forEach(group => visit(group));
+    return labels;
+}
+
+/**
+ * Ranks values from highest (1) to lowest; ties share a rank (1, 2, 2, 4)
+ */
+function rankValues(values: Map<string, number>): Map<string, number> {
+    const sorted = Array.from(values.values()).sort((a, b) => b - a);
+    const ranks = new Map<string, number>();
+    values.forEach((value, key) => ranks.set(key, sorted.indexOf(value) + 1));
+    return ranks;
+}
+
+/**
+ * Re-expresses each measure's aggregated cells and totals according to Show Values As.
+ * Columns (or rows, for Rank in Column) are compared with the other groups at the same
+ * hierarchy level, so with Year > Quarter the previous column of Q1 2025 is Q4 2024.
+ * The underlying cell data is kept, so drill-through still lists the original records.
+ */
+export function applyShowValuesAs(pivotData: IPivotData, showValuesAs: ShowValuesAs): IPivotData {
+    if (showValuesAs === 'VALUE') {
+        return pivotData;
+    }
+
+    const rowLevels = getGroupKeysByLevel(pivotData.rowGroups);
+    const columnLevels = getGroupKeysByLevel(pivotData.columnGroups);
+    const allRowKeys = rowLevels.flat();
+    const allColumnKeys = columnLevels.flat();
+
+    const setValue = (map: Map<string, number>, key: string, value: number | undefined): void => {
+        if (value !== undefined && isFinite(value)) {
+            map.set(key, value);
+        }
+    };
+    const getRatio = (value: number | undefined, base: number | undefined): number | undefined => {
+        return value !== undefined && base ? value / base : undefined;
+    };
+    // A missing cell next to a present one counts as zero, so a drop to nothing shows as a decrease
+    const getDifference = (value: number | undefined, previous: number | undefined): number | undefined => {
+        if (value === undefined && previous === undefined) {
+            return undefined;
+        }
+        const current = value ?? 0;
+        const base = previous ?? 0;
+        if (showValuesAs === 'PERCENT_DIFFERENCE') {
+            return base !== 0 ? (current - base) / Math.abs(base) : undefined;
+        }
+        return current - base;
+    };
+
+    // Applies a calculation across the columns of each level, given the values along one line
+    const transformAcrossColumns = (
+        getSource: (columnKey: string) => number | undefined,
+        setTarget: (columnKey: string, value: number | undefined) => void
+    ): void => {
+        columnLevels.forEach(levelKeys => {
+            if (showValuesAs === 'RUNNING_TOTAL') {
+                let runningTotal: number | undefined;
+                levelKeys.forEach(columnKey => {
+                    const value = getSource(columnKey);
+                    if (value !== undefined) {
+                        runningTotal = (runningTotal ?? 0) + value;
+                    }
+                    setTarget(columnKey, runningTotal);
+                });
+            } else if (showValuesAs === 'RANK_IN_ROW') {
+                const values = new Map<string, number>();
+                levelKeys.forEach(columnKey => setValue(values, columnKey, getSource(columnKey)));
+                rankValues(values).forEach((rank, columnKey) => setTarget(columnKey, rank));
+            } else {
+                levelKeys.forEach((columnKey, index) => {
+                    if (index > 0) {
+                        setTarget(columnKey, getDifference(getSource(columnKey), getSource(levelKeys[index - 1])));
+                    }
+                });
+            }
+        });
+    };
+
+    const transformResult = (result: IMeasureResult): IMeasureResult => {
+        const gridData = new Map<string, number>();
+        const rowTotals = new Map<string, number>();
+        const columnTotals = new Map<string, number>();
+        let grandTotal: number | undefined;
+
+        switch (showValuesAs) {
+            case 'PERCENT_OF_ROW':
+                allRowKeys.forEach(rowKey => {
+                    const rowTotal = result.rowTotals.get(rowKey);
+                    allColumnKeys.forEach(columnKey => {
+                        const cellKey = getCellKey(rowKey, columnKey);
+                        setValue(gridData, cellKey, getRatio(result.gridData.get(cellKey), rowTotal));
+                    });
+                    setValue(rowTotals, rowKey, getRatio(rowTotal, rowTotal));
+                });
+                result.columnTotals.forEach((value, columnKey) => setValue(columnTotals, columnKey, getRatio(value, result.grandTotal)));
+                grandTotal = getRatio(result.grandTotal, result.grandTotal);
+                break;
+            case 'PERCENT_OF_COLUMN':
+                allColumnKeys.forEach(columnKey => {
+                    const columnTotal = result.columnTotals.get(columnKey);
+                    allRowKeys.forEach(rowKey => {
+                        const cellKey = getCellKey(rowKey, columnKey);
+                        setValue(gridData, cellKey, getRatio(result.gridData.get(cellKey), columnTotal));
+                    });
+                    setValue(columnTotals, columnKey, getRatio(columnTotal, columnTotal));
+                });
+                result.rowTotals.forEach((value, rowKey) => setValue(rowTotals, rowKey, getRatio(value, result.grandTotal)));
+                grandTotal = getRatio(result.grandTotal, result.grandTotal);
+                break;
+            case 'PERCENT_OF_GRAND':
+                result.gridData.forEach((value, key) => setValue(gridData, key, getRatio(value, result.grandTotal)));
+                result.rowTotals.forEach((value, key) => setValue(rowTotals, key, getRatio(value, result.grandTotal)));
+                result.columnTotals.forEach((value, key) => setValue(columnTotals, key, getRatio(value, result.grandTotal)));
+                grandTotal = getRatio(result.grandTotal, result.grandTotal);
+                break;
+            case 'RANK_IN_COLUMN':
+                allColumnKeys.forEach(columnKey => {
+                    rowLevels.forEach(levelKeys => {
+                        const values = new Map<string, number>();
+                        levelKeys.forEach(rowKey => setValue(values, rowKey, result.gridData.get(getCellKey(rowKey, columnKey))));
+                        rankValues(values).forEach((rank, rowKey) => gridData.set(getCellKey(rowKey, columnKey), rank));
+                    });
+                });
+                rowLevels.forEach(levelKeys => {
+                    const values = new Map<string, number>();
+                    levelKeys.forEach(rowKey => setValue(values, rowKey, result.rowTotals.get(rowKey)));
+                    rankValues(values).forEach((rank, rowKey) => rowTotals.set(rowKey, rank));
+                });
+                break;
+            default:
+                // Running total, difference and rank in row work along each row and along the totals row.
+                // The row totals column is a running total's final value; it has no previous column to compare.
+                allRowKeys.forEach(rowKey => {
+                    transformAcrossColumns(
+                        columnKey => result.gridData.get(getCellKey(rowKey, columnKey)),
+                        (columnKey, value) => setValue(gridData, getCellKey(rowKey, columnKey), value)
+                    );
+                });
+                transformAcrossColumns(
+                    columnKey => result.columnTotals.get(columnKey),
+                    (columnKey, value) => setValue(columnTotals, columnKey, value)
+                );
+                if (showValuesAs === 'RUNNING_TOTAL') {
+                    result.rowTotals.forEach((value, rowKey) => rowTotals.set(rowKey, value));
+                    grandTotal = result.grandTotal;
+                }
+                break;
+        }
+
+        return { ...result, gridData, rowTotals, columnTotals, grandTotal };
+    };
+
+    return {
+        ...pivotData,
+        results: pivotData.results.map((result, index) =>
+            isShowValuesAsApplicable(pivotData.measures[index]) ? transformResult(result) : result),
+        showValuesAs
+    };
+}
+
+// ============================================================================
+// CONFIGURATION PARSING
+// ============================================================================
+
+/**
+ * Splits the Measures or Calculated Measures property into entries at semicolons and new lines
+ * outside quotes, so quoted labels and text may contain them. A quote inside a word, as in
+ * Owner's Revenue, is an apostrophe rather than the start of quoted text.
+ */
+function splitEntries(value: string): string[] {
+    const entries: string[] = [];
+    let quote: string | undefined;
+    let start = 0;
+    for (let index = 0; index < value.length; index++) {
+        const char = value[index];
+        if (quote) {
+            if (char === quote) {
+                quote = undefined;
+            }
+        } else if ((char === '"' || char === "'") && !/\w/.test(value[index - 1] ?? '')) {
+            quote = char;
+        } else if (char === ';' || char === '\n') {
+            entries.push(value.slice(start, index));
+            start = index + 1;
+        }
+    }
+    entries.push(value.slice(start));
+    return entries.map(entry => entry.trim()).filter(entry => entry.length > 0);
+}
+
+// Accepted aggregation function names in the Measures property
+const measureFunctionMap: Record<string, AggregationType> = {
+    'COUNT': 'COUNT',
+    'SUM': 'SUM',
+    'AVG': 'AVG',
+    'AVERAGE': 'AVG',
+    'MIN': 'MIN',
+    'MAX': 'MAX',
+    'DISTINCTCOUNT': 'DISTINCTCOUNT',
+    'COUNTDISTINCT': 'DISTINCTCOUNT',
+    'MEDIAN': 'MEDIAN',
+    'PERCENTILE': 'PERCENTILE',
+    'STDDEV': 'STDDEV',
+    'STDEV': 'STDDEV',
+    'VARIANCE': 'VARIANCE',
+    'VAR': 'VARIANCE'
+};
+
+/**
+ * Parses the Measures property: entries separated by semicolons or new lines, each written as
+ * FUNCTION(field) with an optional AS "Label", e.g. SUM(estimatedvalue) AS "Est. Revenue"; COUNT(*)
+ * PERCENTILE takes the percentile as a second argument: PERCENTILE(estimatedvalue, 90)
+ * Labels are left empty when not given so a default can be generated.
+ */
+export function parseMeasureList(value: string, localizer: ILocalizer): IMeasureConfig[] {
+    return splitEntries(value).map(entry => {
+        const match = /^(\w+)\s*\(\s*([\w.*]*)\s*(?:,\s*([\d.]+)\s*)?\)\s*(?:as\s+(.+))?$/i.exec(entry);
+        if (!match) {
+            throw new Error(localizer.getString('Error_InvalidMeasure', entry));
+        }
+
+        const aggregationType = measureFunctionMap[match[1].toUpperCase()];
+        if (!aggregationType) {
+            throw new Error(localizer.getString('Error_UnknownAggregation', match[1], entry, Object.keys(measureFunctionMap).join(', ')));
+        }
+
+        const valueField = match[2] === '*' ? '' : match[2];
+        if (!valueField && aggregationType !== 'COUNT') {
+            throw new Error(localizer.getString('Error_MeasureRequiresField', entry));
+        }
+
+        if (match[3] !== undefined && aggregationType !== 'PERCENTILE') {
+            throw new Error(localizer.getString('Error_UnexpectedArgument', entry));
+        }
+
+        const percentile = match[3] !== undefined ? Number(match[3]) : undefined;
+        const label = (match[4] || '').trim().replace(/^["'](.*)["']$/, '$1');
+        return { valueField, aggregationType, label, percentile };
+    });
+}
+
+/**
+ * A token of a calculated measure's formula, with its position in the text for error messages
+ */
+interface IFormulaToken {
+    type: 'NUMBER' | 'TEXT' | 'NAME' | 'OPERATOR' | 'END';
+    text: string;
+    position: number;
+}
+
+// Comparison operators of formula conditions, with the alternative spellings they stand for
+const formulaComparisonOperators: Record<string, ComparisonOperator> = {
+    '=': '=',
+    '==': '=',
+    '<>': '<>',
+    '!=': '<>',
+    '>': '>',
+    '>=': '>=',
+    '<': '<',
+    '<=': '<='
+};
+
+/**
+ * Parses a calculated measure's formula. Aggregates take arithmetic over fields, e.g.
+ * SUM(estimatedvalue * closeprobability / 100), and the formula combines aggregates and numbers
+ * with + - * / and DIVIDE(a, b, alternate). Appending IF to an aggregate adds a condition as its
+ * last argument, e.g. COUNTIF(statecode = 1) or SUMIF(estimatedvalue, statuscode = "Won");
+ * conditions compare with = <> > >= < <= and combine with AND, OR and NOT.
+ * Function names and keywords are case-insensitive.
+ */
+function parseFormula(text: string, measureLabel: string, localizer: ILocalizer): IFormula {
+    const fail = (position: number, key: string, ...args: (string | number)[]): never => {
+        throw new Error(localizer.getString('Error_FormulaSyntax', measureLabel, localizer.getString(key, ...args), position + 1));
+    };
+
+    const tokens: IFormulaToken[] = [];
+    const tokenPattern = /(\d+(?:\.\d+)?|\.\d+)|"([^"]*)"|'([^']*)'|([A-Za-z_][\w.]*)|(<>|<=|>=|!=|==|&&|\|\||[-+*/(),=<>!])/y;
+    let offset = 0;
+    for (;;) {
+        const rest = text.slice(offset);
+        const position = offset + rest.length - rest.trimStart().length;
+        if (position >= text.length) {
+            break;
+        }
+        tokenPattern.lastIndex = position;
+        const match = tokenPattern.exec(text);
+        if (!match) {
+            const character = text.charAt(position);
+            return character === '"' || character === "'"
+                ? fail(position, 'Formula_UnterminatedText')
+                : fail(position, 'Formula_InvalidCharacter', character);
+        }
+        if (match[1] !== undefined) {
+            tokens.push({ type: 'NUMBER', text: match[1], position });
+        } else if (match[2] !== undefined || match[3] !== undefined) {
+            tokens.push({ type: 'TEXT', text: match[2] ?? match[3], position });
+        } else if (match[4] !== undefined) {
+            tokens.push({ type: 'NAME', text: match[4], position });
+        } else {
+            tokens.push({ type: 'OPERATOR', text: match[5], position });
+        }
+        offset = tokenPattern.lastIndex;
+    }
+    tokens.push({ type: 'END', text: '', position: text.length });
+
+    const terms: IFormulaTerm[] = [];
+    let index = 0;
+    const peek = (ahead = 0): IFormulaToken => tokens[Math.min(index + ahead, tokens.length - 1)];
+    const next = (): IFormulaToken => tokens[Math.min(index++, tokens.length - 1)];
+    const isOperator = (...operators: string[]): boolean => peek().type === 'OPERATOR' && operators.includes(peek().text);
+    const isKeyword = (keyword: string): boolean => peek().type === 'NAME' && peek().text.toUpperCase() === keyword;
+    const unexpected = (token: IFormulaToken): never => token.type === 'END'
+        ? fail(token.position, 'Formula_UnexpectedEnd')
+        : fail(token.position, 'Formula_UnexpectedToken', token.text);
+    const expect = (operator: string): void => {
+        const token = next();
+        if (token.type !== 'OPERATOR' || token.text !== operator) {
+            unexpected(token);
+        }
+    };
+
+    // Arithmetic: over aggregates and numbers in the formula itself, over fields inside an aggregate
+    const parseSum = (inAggregate: boolean): FormulaNode => {
+        let node = parseProduct(inAggregate);
+        while (isOperator('+', '-')) {
+            const operator = next().text as '+' | '-';
+            node = { kind: 'ARITHMETIC', operator, left: node, right: parseProduct(inAggregate) };
+        }
+        return node;
+    };
+    const parseProduct = (inAggregate: boolean): FormulaNode => {
+        let node = parseUnary(inAggregate);
+        while (isOperator('*', '/')) {
+            const operator = next().text as '*' | '/';
+            node = { kind: 'ARITHMETIC', operator, left: node, right: parseUnary(inAggregate) };
+        }
+        return node;
+    };
+    const parseUnary = (inAggregate: boolean): FormulaNode => {
+        if (isOperator('-')) {
+            next();
+            return { kind: 'NEGATE', operand: parseUnary(inAggregate) };
+        }
+        if (isOperator('+')) {
+            next();
+            return parseUnary(inAggregate);
+        }
+        return parsePrimary(inAggregate);
+    };
+    const parsePrimary = (inAggregate: boolean): FormulaNode => {
+        const token = next();
+        if (token.type === 'NUMBER') {
+            return { kind: 'NUMBER', value: Number(token.text) };
+        }
+        if (token.type === 'OPERATOR' && token.text === '(') {
+            const node = parseSum(inAggregate);
+            expect(')');
+            return node;
+        }
+        if (token.type === 'NAME') {
+            if (isOperator('(')) {
+                return parseFunction(token, inAggregate);
+            }
+            if (!inAggregate) {
+                return fail(token.position, 'Formula_FieldOutsideAggregate', token.text);
+            }
+            return { kind: 'FIELD', name: token.text };
+        }
+        return unexpected(token);
+    };
+
+    // Conditions, e.g. statecode = 1 AND (estimatedvalue > 10000 OR NOT ownerid = BLANK())
+    const parseOr = (): FormulaNode => {
+        let node = parseAnd();
+        while (isKeyword('OR') || isOperator('||')) {
+            next();
+            node = { kind: 'LOGICAL', operator: 'OR', left: node, right: parseAnd() };
+        }
+        return node;
+    };
+    const parseAnd = (): FormulaNode => {
+        let node = parseNot();
+        while (isKeyword('AND') || isOperator('&&')) {
+            next();
+            node = { kind: 'LOGICAL', operator: 'AND', left: node, right: parseNot() };
+        }
+        return node;
+    };
+    const parseNot = (): FormulaNode => {
+        if (isKeyword('NOT') || isOperator('!')) {
+            next();
+            return { kind: 'NOT', operand: parseNot() };
+        }
+        if (isOperator('(') && !isArithmeticParenthesis()) {
+            next();
+            const node = parseOr();
+            expect(')');
+            return node;
+        }
+        const left = parseComparisonOperand();
+        const token = next();
+        const operator = token.type === 'OPERATOR' ? formulaComparisonOperators[token.text] : undefined;
+        if (!operator) {
+            return fail(token.position, 'Formula_ExpectedComparison');
+        }
+        return { kind: 'COMPARISON', operator, left, right: parseComparisonOperand() };
+    };
+    // A parenthesis in a condition either groups conditions or starts an arithmetic operand,
+    // e.g. (estimatedvalue - discount) > 1000, which the token after the closing one tells apart
+    const isArithmeticParenthesis = (): boolean => {
+        let depth = 0;
+        for (let ahead = 0; peek(ahead).type !== 'END'; ahead++) {
+            const token = peek(ahead);
+            if (token.type === 'OPERATOR' && token.text === '(') {
+                depth++;
+            } else if (token.type === 'OPERATOR' && token.text === ')' && --depth === 0) {
+                const following = peek(ahead + 1);
+                return following.type === 'OPERATOR' &&
+                    (following.text in formulaComparisonOperators || ['+', '-', '*', '/'].includes(following.text));
+            }
+        }
+        return false;
+    };
+    const parseComparisonOperand = (): FormulaNode => {
+        if (peek().type === 'TEXT') {
+            return { kind: 'TEXT', value: next().text };
+        }
+        if (isKeyword('BLANK') && peek(1).type === 'OPERATOR' && peek(1).text === '(') {
+            next();
+            next();
+            expect(')');
+            return { kind: 'BLANK' };
+        }
+        return parseSum(true);
+    };
+
+    // Aggregates, their IF variants, and DIVIDE
+    const parseFunction = (nameToken: IFormulaToken, inAggregate: boolean): FormulaNode => {
+        const name = nameToken.text.toUpperCase();
+        next();
+        if (name === 'DIVIDE') {
+            const numerator = parseSum(inAggregate);
+            expect(',');
+            const denominator = parseSum(inAggregate);
+            let alternate: FormulaNode | undefined;
+            if (isOperator(',')) {
+                next();
+                alternate = parseSum(inAggregate);
+            }
+            expect(')');
+            return { kind: 'DIVIDE', numerator, denominator, alternate };
+        }
+
+        const isConditional = name.endsWith('IF') && name.slice(0, -2) in measureFunctionMap;
+        const aggregationType = measureFunctionMap[isConditional ? name.slice(0, -2) : name];
+        if (!aggregationType) {
+            return fail(nameToken.position, 'Formula_UnknownFunction', nameToken.text);
+        }
+        if (inAggregate) {
+            return fail(nameToken.position, 'Formula_NestedAggregate', nameToken.text);
+        }
+
+        const term: IFormulaTerm = { aggregationType };
+        if (aggregationType === 'COUNT' && (isConditional || isOperator('*', ')'))) {
+            // COUNT(*) and COUNTIF(condition) count records
+            if (isOperator('*')) {
+                next();
+            }
+        } else if (aggregationType === 'DISTINCTCOUNT') {
+            const field = next();
+            if (field.type !== 'NAME') {
+                return fail(field.position, 'Formula_ExpectedField', nameToken.text);
+            }
+            term.argument = { kind: 'FIELD', name: field.text };
+        } else {
+            term.argument = parseSum(true);
+        }
+
+        if (aggregationType === 'PERCENTILE') {
+            expect(',');
+            const percentile = next();
+            if (percentile.type !== 'NUMBER' || Number(percentile.text) > 100) {
+                return fail(percentile.position, 'Formula_ExpectedPercentile');
+            }
+            term.percentile = Number(percentile.text);
+        }
+
+        if (isConditional) {
+            if (term.argument || term.percentile !== undefined) {
+                expect(',');
+            }
+            term.condition = parseOr();
+        }
+        expect(')');
+        terms.push(term);
+        return { kind: 'AGGREGATE', term: terms.length - 1 };
+    };
+
+    const expression = parseSum(false);
+    if (peek().type !== 'END') {
+        unexpected(peek());
+    }
+    return { expression, terms };
+}
+
+/**
+ * Parses the Calculated Measures property: entries separated by semicolons or new lines, each
+ * written as Label = formula (see parseFormula), e.g. Win Rate = COUNTIF(statecode = 1) / COUNT(*)
+ * The label may be quoted; everything after its first "=" is the formula.
+ */
+export function parseCalculatedMeasures(value: string, localizer: ILocalizer): IMeasureConfig[] {
+    return splitEntries(value).map((entry): IMeasureConfig => {
+        const match = /^(?:"([^"]+)"|'([^']+)'|([^=]+?))\s*=(.+)$/.exec(entry);
+        if (!match) {
+            throw new Error(localizer.getString('Error_InvalidCalculatedMeasure', entry));
+        }
+
+        const label = (match[1] ?? match[2] ?? match[3]).trim();
+        return { valueField: '', aggregationType: 'CALCULATED', label, formula: parseFormula(match[4], label, localizer) };
+    });
+}
+
+// Date groupings accepted after a field name in Row Field / Column Field, e.g. "createdon:month"
+const dateGroupingTokenMap: Record<string, DateGrouping> = {
+    'day': 'DAY',
+    'week': 'WEEK',
+    'month': 'MONTH',
+    'quarter': 'QUARTER',
+    'year': 'YEAR',
+    'fiscalquarter': 'FISCAL_QUARTER',
+    'fiscalyear': 'FISCAL_YEAR',
+    'dayofweek': 'DAY_OF_WEEK'
+};
+
+/**
+ * Splits a comma-separated list of logical names (outermost level first). Each name may
+ * carry its own date grouping ("createdon:quarter"); otherwise the dimension default applies.
+ * The dimension's numeric binning, if any, applies to its numeric fields, and its group
+ * order, multi-select splitting and blank handling to every level.
+ */
+export function parseFieldList(
+    value: string | null,
+    defaultDateGrouping: DateGrouping,
+    localizer: ILocalizer,
+    binning?: INumericBinning,
+    options?: Pick<IGroupFieldConfig, 'groupOrder' | 'customOrder' | 'splitMultiSelect' | 'blankPlacement' | 'blankLabel'>
+): IGroupFieldConfig[] {
+    // Only the options themselves are copied, as callers may pass an object with other settings
+    const fieldOptions: typeof options = {
+        groupOrder: options?.groupOrder,
+        customOrder: options?.customOrder,
+        splitMultiSelect: options?.splitMultiSelect,
+        blankPlacement: options?.blankPlacement,
+        blankLabel: options?.blankLabel
+    };
+    return (value || "")
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(entry => entry.length > 0)
+        .map(entry => {
+            const [name, groupingToken] = entry.split(':').map(part => part.trim());
+            if (groupingToken === undefined) {
+                return { name, dateGrouping: defaultDateGrouping, binning, ...fieldOptions };
+            }
+
+            const dateGrouping = dateGroupingTokenMap[groupingToken.toLowerCase()];
+            if (!dateGrouping) {
+                throw new Error(localizer.getString('Error_UnknownDateGrouping', groupingToken, name, Object.keys(dateGroupingTokenMap).join(', ')));
+            }
+            return { name, dateGrouping, isExplicitDateGrouping: true, ...fieldOptions };
+        });
+}
+
+/**
+ * Parses a custom group order: labels separated by semicolons or new lines, e.g. "Open; Won; Lost"
+ */
+export function parseCustomOrder(value: string | null | undefined): string[] {
+    return (value || '')
+        .split(/[;\n]/)
+        .map(label => label.trim())
+        .filter(label => label.length > 0);
+}
@@ -1,576 +1,2579 @@
 import { IInputs, IOutputs } from "./generated/ManifestTypes";
 import * as React from "react";
 import { createRoot, Root } from "react-dom/client";
-import { DetailsList, IColumn, DetailsListLayoutMode, SelectionMode } from "@fluentui/react/lib/DetailsList";
 import { Stack } from "@fluentui/react/lib/Stack";
 import { Text } from "@fluentui/react/lib/Text";
+import { Spinner, SpinnerSize } from "@fluentui/react/lib/Spinner";
+import { ProgressIndicator } from "@fluentui/react/lib/ProgressIndicator";
+import { MessageBar, MessageBarType } from "@fluentui/react/lib/MessageBar";
+import { Panel, PanelType } from "@fluentui/react/lib/Panel";
+import { Link } from "@fluentui/react/lib/Link";
+import { DefaultButton } from "@fluentui/react/lib/Button";
+import { Dropdown, IDropdownOption } from "@fluentui/react/lib/Dropdown";
+import {
+    AggregationType, BlankPlacement, DateGrouping, GroupOrder, ICellData, IGroupField, IGroupValue, ILocalizer, IMeasureConfig,
+    IMeasureResult, IPivotConfig, IPivotData, IPivotGroup, IPivotMeasure, IValueFormat, IValueFormatter, ShowValuesAs,
+    BLANK_GROUP_ID, DEFAULT_PERCENTILE, applyShowValuesAs, createLocalizer, decodeGroupKey, fillPlaceholders,
+    findGroupFields, formatValue, getAvailableAggregationTypes, getCellKey, getGroupKeysByLevel, getGroupPathLabels, getRecordIds,
+    getGroupValue, getNextDateBucketStart, getPercentile, isDateDataType, isShowValuesAsApplicable, parseCalculatedMeasures,
+    parseCustomOrder, parseFieldList, parseMeasureList, parseNumericBinning, sortGroupTree, toUserDate
+} from "./engine/PivotEngine";
+import { createDataSetSource, transformDatasetToPivot } from "./engine/DataSetAdapter";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Largest page size the platform accepts for a dataset
+const MAX_PAGE_SIZE = 5000;
+
+// Lookup to a record's transaction currency, which tells apart the currencies of its currency values
+const CURRENCY_FIELD = 'transactioncurrencyid';
+
+// Record cap used when the maker leaves Maximum Records empty
+const DEFAULT_MAX_RECORDS = 50000;
+
+// Most records listed in the drill-through panel at once
+const MAX_DRILL_THROUGH_RECORDS = 500;
+
+// Entry of the control state, and prefix of the local storage key, holding the user's layout
+const LAYOUT_STORAGE_KEY = 'CustomMatrixPCF.layout';
+
+// Tables with more body rows than this only render the rows in view, plus some overscan.
+// Virtualized rows have a fixed height (see .pcf-virtualized in the stylesheet).
+const VIRTUALIZATION_THRESHOLD = 200;
+const VIRTUAL_ROW_HEIGHT = 37;
+const VIRTUAL_OVERSCAN_ROWS = 20;
+const VIRTUAL_INITIAL_ROWS = 60;
+
+// Prefix of the local storage keys that remember each user's choice of matrix or chart
+const VIEW_STORAGE_KEY = 'CustomMatrixPCF.view';
+
+// Series colors of the chart view, reused in order when there are more series
+const CHART_COLORS = ['#0078d4', '#e3008c', '#107c10', '#ffb900', '#8764b8', '#00b7c3',
+    '#d83b01', '#004e8c', '#498205', '#c239b3', '#986f0b', '#69797e'];
 
 // ============================================================================
 // INTERFACES
 // ============================================================================
 
-interface IPivotConfig {
-    groupByRow: string;
-    groupByColumn: string;
-    valueField: string;
-    aggregationType: 'SUM' | 'AVG' | 'MIN' | 'MAX' | 'COUNT';
+type DrillThroughMode = 'NONE' | 'SELECT' | 'PANEL';
+
+type ChartType = 'CLUSTERED_BAR' | 'STACKED_BAR' | 'LINE' | 'PERCENT_STACKED_BAR';
+
+/**
+ * Whether the pivot is shown as the matrix or as one of the charts
+ */
+type MatrixView = 'MATRIX' | ChartType;
+
+/**
+ * Color-scale shading of data cells. Two colors run from the lowest to the highest value;
+ * a third color is used as the midpoint, placed at the median.
+ */
+interface IColorScale {
+    colors: string[];
+}
+
+type FormattingRuleOperator = '>' | '>=' | '<' | '<=' | '=' | '<>' | 'BETWEEN';
+
+/**
+ * A threshold rule from the Formatting Rules property, e.g. "> 100000: bg=#dff6dd, bold".
+ * A rule with a measure label only applies to that measure.
+ */
+interface IFormattingRule {
+    measureLabel?: string;
+    operator: FormattingRuleOperator;
+    value: number;
+    maxValue?: number;
+    condition: string;
+    backgroundColor?: string;
+    textColor?: string;
+    bold: boolean;
+    icon?: string;
 }
 
-interface ICellData {
-    values: number[];
-    count: number;
+interface IConditionalFormatting {
+    colorScale?: IColorScale;
+    rules: IFormattingRule[];
 }
 
-interface IPivotData {
-    rowKeys: string[];
-    columnKeys: string[];
-    gridData: Map<string, number>;
+/**
+ * What cells and totals without a value show: a dash, zero or nothing
+ */
+type EmptyCellDisplay = 'DASH' | 'ZERO' | 'EMPTY';
+
+/**
+ * Layout chosen by the user in the layout panel. Unset choices fall back to the maker's
+ * properties; a value field with its aggregation replaces the configured measures.
+ */
+interface IUserLayout {
+    groupByRow?: string;
+    groupByColumn?: string;
+    valueField?: string;
+    aggregationType?: AggregationType;
+    axesSwapped?: boolean;
 }
 
 // ============================================================================
-// PIVOT TRANSFORMATION LOGIC
+// REACT COMPONENT
 // ============================================================================
 
 /**
- * Transforms a PCF dataset into pivot table structure
- * @param dataset The PCF dataset from context.parameters
- * @param config Configuration for grouping and aggregation
- * @returns Structured pivot data with row keys, column keys, and aggregated values
+ * A record listed in the drill-through panel
  */
-function transformDatasetToPivot(
-    dataset: ComponentFramework.PropertyTypes.DataSet,
-    config: IPivotConfig
-): IPivotData {
-    // Validate dataset
-    if (!dataset || !dataset.columns || dataset.columns.length === 0) {
-        throw new Error("Dataset is not properly configured");
-    }
+interface IRecordReference {
+    id: string;
+    name: string;
+    entityName: string;
+}
 
-    if (!dataset.sortedRecordIds || dataset.sortedRecordIds.length === 0) {
-        return {
-            rowKeys: [],
-            columnKeys: [],
-            gridData: new Map<string, number>()
-        };
-    }
+/**
+ * The cell or total the user drilled into, with the records behind it
+ */
+interface IDrillThrough {
+    title: string;
+    recordIds: string[];
+}
+
+interface IPivotTableProps {
+    pivotData: IPivotData;
+    measuresOnRows: boolean;
+    drillThroughMode: DrillThroughMode;
+    onSelectRecords: (recordIds: string[]) => void;
+    onOpenRecord: (record: IRecordReference) => void;
+    getRecordReference: (recordId: string) => IRecordReference;
+    showTotals: boolean;
+    showTitle: boolean;
+    titleText: string;
+    truncatedAt?: number;
+    conditionalFormatting: IConditionalFormatting;
+    emptyCellDisplay: EmptyCellDisplay;
+    formatter: IValueFormatter;
+    localizer: ILocalizer;
+    showExport: boolean;
+    layout?: ILayoutOptions;
+    filterBar?: IFilterBarOptions;
+    onSelectCell: (selection: ICellSelection | undefined, recordIds: string[]) => void;
+    view: MatrixView;
+    onViewChange?: (view: MatrixView) => void;
+}
+
+/**
+ * The selected cell. Row and column keys are undefined for the total row and TOTAL column.
+ * Its records are looked up when it is selected (see getRecordIds).
+ */
+interface ICellSelection {
+    rowKey?: string;
+    columnKey?: string;
+    rowLabel: string;
+    columnLabel: string;
+    measureIndex: number;
+    measureLabel: string;
+    value: number | undefined;
+    recordCount: number;
+}
+
+/**
+ * A field users filter the matrix by. Slicers group values like rows and columns do,
+ * so a date slicer offers date buckets such as fiscal years.
+ */
+interface ISlicer {
+    key: string;
+    label: string;
+    field: IGroupField;
+    options: IGroupValue[];
+    selectedIds: string[];
+}
+
+/**
+ * Slicers of the filter bar and the callbacks that change their selection
+ */
+interface IFilterBarOptions {
+    slicers: ISlicer[];
+    onChange: (slicerKey: string, selectedIds: string[]) => void;
+    onClear: () => void;
+}
+
+/**
+ * A view column offered in the layout panel
+ */
+interface ILayoutField {
+    name: string;
+    displayName: string;
+    dataType: string;
+}
+
+/**
+ * Current layout and the callbacks that change it. Value field and aggregation are
+ * undefined while the configured measures are shown.
+ */
+interface ILayoutOptions {
+    fields: ILayoutField[];
+    groupByRow: string;
+    groupByColumn: string;
+    valueField: string | undefined;
+    aggregationType: AggregationType | undefined;
+    hasConfiguredMeasures: boolean;
+    percentile: number | undefined;
+    isCustomized: boolean;
+    onChange: (change: IUserLayout) => void;
+    onSwap: () => void;
+    onReset: () => void;
+}
+
+type SortDirection = 'ASC' | 'DESC';
+
+/**
+ * Rows ordered by one measure's values in a data column, or in the TOTAL column
+ */
+interface IRowSort {
+    columnKey: string;
+    isTotal: boolean;
+    measureIndex: number;
+    direction: SortDirection;
+}
+
+/**
+ * Columns ordered by one measure's totals
+ */
+interface IColumnSort {
+    measureIndex: number;
+    direction: SortDirection;
+}
+
+/**
+ * A data column as rendered: a leaf or collapsed group, or the subtotal of an expanded group
+ */
+interface IVisibleColumn {
+    key: string;
+    isSubtotal: boolean;
+    headerIds?: string[];
+}
+
+/**
+ * Orders sibling groups by a value at every level. Groups without a value go last in either
+ * direction, as does "(Other)"; ties keep their label order. Returns sorted copies, leaving
+ * the pivot's own group trees untouched.
+ */
+function sortGroupsByValue(
+    groups: IPivotGroup[],
+    getValue: (group: IPivotGroup) => number | undefined,
+    direction: SortDirection
+): IPivotGroup[] {
+    const sign = direction === 'ASC' ? 1 : -1;
+    return groups
+        .map(group => ({ ...group, children: sortGroupsByValue(group.children, getValue, direction) }))
+        .sort((a, b) => {
+            if (a.isOther || b.isOther) {
+                return a.isOther ? (b.isOther ? 0 : 1) : -1;
+            }
+            const aValue = getValue(a);
+            const bValue = getValue(b);
+            if (aValue === undefined || bValue === undefined) {
+                return aValue === undefined ? (bValue === undefined ? 0 : 1) : -1;
+            }
+            return (aValue - bValue) * sign;
+        });
+}
 
-    // Find the column definitions
-    const rowColumn = dataset.columns.find(col => col.name === config.groupByRow);
-    const columnColumn = dataset.columns.find(col => col.name === config.groupByColumn);
-    const valueColumn = dataset.columns.find(col => col.name === config.valueField);
+/**
+ * Record ids compare without braces and case, as hosts write GUIDs either way
+ */
+function normalizeRecordId(id: string): string {
+    return id.replace(/[{}]/g, '').toLowerCase();
+}
 
-    if (!rowColumn) {
-        throw new Error(`Row field '${config.groupByRow}' not found in dataset columns`);
+/**
+ * Currency symbol of a cell's currency values: the records' currency when they share one,
+ * the base currency when they have none, and none (empty) when they mix currencies, as
+ * amounts added up across currencies are in none of them
+ */
+function getCellCurrencySymbol(cellData: ICellData | undefined, formatter: IValueFormatter): string {
+    const currencyIds = cellData?.currencyIds;
+    if (!currencyIds || currencyIds.size === 0) {
+        return formatter.currencySymbol;
+    }
+    if (currencyIds.size > 1) {
+        return '';
     }
-    if (!columnColumn) {
-        throw new Error(`Column field '${config.groupByColumn}' not found in dataset columns`);
+    const [currencyId] = Array.from(currencyIds);
+    return formatter.getCurrencySymbol?.(currencyId) ?? formatter.currencySymbol;
+}
+
+/**
+ * Format a value as presented by Show Values As: shares and percentage differences
+ * as percentages, ranks as whole numbers, everything else like the underlying measure
+ */
+function formatDisplayValue(
+    value: number,
+    measure: IPivotMeasure,
+    showValuesAs: ShowValuesAs,
+    formatter: IValueFormatter,
+    currencySymbol?: string
+): string {
+    const valueFormat: IValueFormat = { dataType: measure.dataType, precision: measure.precision, currencySymbol };
+    if (!isShowValuesAsApplicable(measure)) {
+        return formatValue(value, valueFormat, measure.aggregationType, formatter);
     }
-    if (!valueColumn) {
-        throw new Error(`Value field '${config.valueField}' not found in dataset columns`);
+
+    switch (showValuesAs) {
+        case 'PERCENT_OF_ROW':
+        case 'PERCENT_OF_COLUMN':
+        case 'PERCENT_OF_GRAND':
+        case 'PERCENT_DIFFERENCE':
+            return `${formatter.formatDecimal(value * 100, 1)}%`;
+        case 'RANK_IN_ROW':
+        case 'RANK_IN_COLUMN':
+            return formatter.formatInteger(value);
+        default:
+            return formatValue(value, valueFormat, measure.aggregationType, formatter);
     }
+}
+
+/**
+ * The value a cell without one shows as: zero when empty cells show zero, except for
+ * measures whose values are dates, which are left empty
+ */
+function getEmptyCellValue(measure: IPivotMeasure, emptyCellDisplay: EmptyCellDisplay): number | undefined {
+    return emptyCellDisplay === 'ZERO' && isShowValuesAsApplicable(measure) ? 0 : undefined;
+}
 
-    // Validate valueField data type based on aggregation type
-    const isNumericField = valueColumn.dataType === "Whole.None" || 
-                           valueColumn.dataType === "Decimal" || 
-                           valueColumn.dataType === "Currency" || 
-                           valueColumn.dataType === "FP";
-    const isDateField = valueColumn.dataType === "DateAndTime.DateOnly" || 
-                        valueColumn.dataType === "DateAndTime.DateAndTime";
+/**
+ * Lowest, median and highest value of a measure's data cells, which a color scale spans
+ */
+interface IColorScaleDomain {
+    min: number;
+    mid: number;
+    max: number;
+}
 
-    if (config.aggregationType === 'SUM' || config.aggregationType === 'AVG') {
-        if (!isNumericField) {
-            throw new Error(`Aggregation type '${config.aggregationType}' requires a numeric or currency field. Field '${config.valueField}' is of type '${valueColumn.dataType}'.`);
+/**
+ * Color scale domain of every measure, spanning its data cells; undefined for measures without values
+ */
+function getColorScaleDomains(pivotData: IPivotData): (IColorScaleDomain | undefined)[] {
+    const leafRowKeys = getGroupKeysByLevel(pivotData.rowGroups)[pivotData.rowDepth - 1] ?? [];
+    const leafColumnKeys = getGroupKeysByLevel(pivotData.columnGroups)[pivotData.columnDepth - 1] ?? [];
+    return pivotData.results.map(result => {
+        const values = leafRowKeys.flatMap(rowKey => leafColumnKeys
+            .map(columnKey => result.gridData.get(getCellKey(rowKey, columnKey)))
+            .filter((value): value is number => value !== undefined));
+        if (values.length === 0) {
+            return undefined;
         }
+        values.sort((a, b) => a - b);
+        return { min: values[0], mid: getPercentile(values, 50), max: values[values.length - 1] };
+    });
+}
+
+function parseHexColor(color: string): [number, number, number] {
+    const hex = color.length === 4
+        ? color.slice(1).split('').map(digit => digit + digit).join('')
+        : color.slice(1);
+    return [0, 2, 4].map(offset => parseInt(hex.slice(offset, offset + 2), 16)) as [number, number, number];
+}
+
+function interpolateColor(from: string, to: string, ratio: number): string {
+    const fromRgb = parseHexColor(from);
+    const toRgb = parseHexColor(to);
+    const channels = fromRgb.map((channel, index) => Math.round(channel + (toRgb[index] - channel) * ratio));
+    return `rgb(${channels.join(', ')})`;
+}
+
+/**
+ * The color-scale color of a value, clamped to the domain
+ */
+function getColorScaleColor(value: number, domain: IColorScaleDomain, colorScale: IColorScale): string {
+    const getRatio = (from: number, to: number): number => (to > from ? Math.min(Math.max((value - from) / (to - from), 0), 1) : 0);
+    const { colors } = colorScale;
+    if (colors.length === 3) {
+        return value <= domain.mid
+            ? interpolateColor(colors[0], colors[1], getRatio(domain.min, domain.mid))
+            : interpolateColor(colors[1], colors[2], getRatio(domain.mid, domain.max));
     }
+    return interpolateColor(colors[0], colors[1], getRatio(domain.min, domain.max));
+}
 
-    if (config.aggregationType === 'MIN' || config.aggregationType === 'MAX') {
-        if (!isNumericField && !isDateField) {
-            throw new Error(`Aggregation type '${config.aggregationType}' requires a numeric, currency, or date field. Field '${config.valueField}' is of type '${valueColumn.dataType}'.`);
-        }
+function getRelativeLuminance(color: string): number {
+    const channels = color.startsWith('#')
+        ? parseHexColor(color)
+        : (color.match(/\d+/g) || []).map(Number);
+    const [red, green, blue] = channels.map(channel => {
+        const srgb = channel / 255;
+        return srgb <= 0.03928 ? srgb / 12.92 : Math.pow((srgb + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * red + 0.7152 * green + 0.0722 * blue;
+}
+
+function getContrastRatio(first: string, second: string): number {
+    const [lighter, darker] = [getRelativeLuminance(first), getRelativeLuminance(second)].sort((a, b) => b - a);
+    return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Text color for a cell background: the preferred color if it meets the WCAG AA contrast
+ * ratio (4.5:1), otherwise dark or white text, whichever contrasts more
+ */
+function getReadableTextColor(backgroundColor: string, preferredColor?: string): string {
+    if (preferredColor && getContrastRatio(preferredColor, backgroundColor) >= 4.5) {
+        return preferredColor;
+    }
+    return getContrastRatio('#323130', backgroundColor) >= getContrastRatio('#ffffff', backgroundColor) ? '#323130' : '#ffffff';
+}
+
+function matchesFormattingRule(value: number, rule: IFormattingRule): boolean {
+    switch (rule.operator) {
+        case '>': return value > rule.value;
+        case '>=': return value >= rule.value;
+        case '<': return value < rule.value;
+        case '<=': return value <= rule.value;
+        case '=': return value === rule.value;
+        case '<>': return value !== rule.value;
+        case 'BETWEEN': return value >= rule.value && value <= (rule.maxValue ?? rule.value);
     }
+}
 
-    // Build pivot structure
-    const rowSet = new Set<string>();
-    const columnSet = new Set<string>();
-    const cellDataMap = new Map<string, ICellData>();
+interface IDrillThroughPanelProps {
+    drillThrough: IDrillThrough;
+    getRecordReference: (recordId: string) => IRecordReference;
+    onOpenRecord: (record: IRecordReference) => void;
+    onDismiss: () => void;
+    formatter: IValueFormatter;
+    localizer: ILocalizer;
+}
 
-    // Iterate through sorted records
-    dataset.sortedRecordIds.forEach(recordId => {
-        const record = dataset.records[recordId];
-        
-        // Get row key (use formatted value for OptionSets and Lookups, raw value for others)
-        let rowKey: string;
-        if (rowColumn.dataType === "OptionSet" || rowColumn.dataType === "TwoOptions" || 
-            rowColumn.dataType === "MultiSelectOptionSet" ||
-            rowColumn.dataType === "Lookup.Simple" || rowColumn.dataType === "Lookup.Customer" ||
-            rowColumn.dataType === "Lookup.Owner" || rowColumn.dataType === "Lookup.PartyList" ||
-            rowColumn.dataType === "Lookup.Regarding") {
-            rowKey = record.getFormattedValue(config.groupByRow) || "(Blank)";
-        } else {
-            const rawValue = record.getValue(config.groupByRow);
-            rowKey = rawValue !== null && rawValue !== undefined ? String(rawValue) : "(Blank)";
-        }
-
-        // Get column key (use formatted value for OptionSets and Lookups, raw value for others)
-        let columnKey: string;
-        if (columnColumn.dataType === "OptionSet" || columnColumn.dataType === "TwoOptions" || 
-            columnColumn.dataType === "MultiSelectOptionSet" ||
-            columnColumn.dataType === "Lookup.Simple" || columnColumn.dataType === "Lookup.Customer" ||
-            columnColumn.dataType === "Lookup.Owner" || columnColumn.dataType === "Lookup.PartyList" ||
-            columnColumn.dataType === "Lookup.Regarding") {
-            columnKey = record.getFormattedValue(config.groupByColumn) || "(Blank)";
-        } else {
-            const rawValue = record.getValue(config.groupByColumn);
-            columnKey = rawValue !== null && rawValue !== undefined ? String(rawValue) : "(Blank)";
-        }
+/**
+ * Side panel listing the records behind a cell, each linking to its form
+ */
+const DrillThroughPanel: React.FC<IDrillThroughPanelProps> = ({ drillThrough, getRecordReference, onOpenRecord, onDismiss, formatter, localizer }) => {
+    const { title, recordIds } = drillThrough;
+    const listedIds = recordIds.slice(0, MAX_DRILL_THROUGH_RECORDS);
 
-        // Get value for aggregation
-        const rawValue = record.getValue(config.valueField);
-        
-        // Skip null/undefined values for aggregation (except for COUNT)
-        if (rawValue === null || rawValue === undefined) {
-            if (config.aggregationType === 'COUNT') {
-                // For COUNT, we still count the record even if value is null
-                rowSet.add(rowKey);
-                columnSet.add(columnKey);
-                
-                const cellKey = `${rowKey}_|_${columnKey}`;
-                const cellData = cellDataMap.get(cellKey) || { values: [], count: 0 };
-                cellData.count++;
-                cellDataMap.set(cellKey, cellData);
-            }
-            return;
-        }
+    return React.createElement(
+        Panel,
+        {
+            isOpen: true,
+            type: PanelType.medium,
+            headerText: title,
+            isLightDismiss: true,
+            closeButtonAriaLabel: localizer.getString('Close'),
+            onDismiss
+        },
+        React.createElement(
+            Text,
+            { variant: 'medium', className: 'drill-through-summary' },
+            recordIds.length > listedIds.length
+                ? localizer.getString('DrillThrough_ShowingRecords', formatter.formatInteger(listedIds.length), formatter.formatInteger(recordIds.length))
+                : localizer.getString(recordIds.length === 1 ? 'DrillThrough_OneRecord' : 'DrillThrough_Records', formatter.formatInteger(recordIds.length))
+        ),
+        React.createElement(
+            'ul',
+            { className: 'drill-through-list' },
+            ...listedIds.map(recordId => {
+                const record = getRecordReference(recordId);
+                return React.createElement(
+                    'li',
+                    { key: recordId },
+                    React.createElement(Link, { onClick: () => onOpenRecord(record) }, record.name || localizer.getString('NoName'))
+                );
+            })
+        )
+    );
+};
 
-        rowSet.add(rowKey);
-        columnSet.add(columnKey);
-
-        // Convert value to number for aggregation
-        let numericValue: number;
-        if (isDateField) {
-            // Handle date fields - PCF may return Date objects or ISO strings
-            let dateValue: Date;
-            if (rawValue instanceof Date) {
-                dateValue = rawValue;
-            } else if (typeof rawValue === 'string') {
-                dateValue = new Date(rawValue);
-            } else if (typeof rawValue === 'number') {
-                dateValue = new Date(rawValue);
-            } else {
-                // Fallback: try to convert to string first, then to date
-                dateValue = new Date(String(rawValue));
+/**
+ * One multi-select dropdown per slicer; an empty selection means no filter
+ */
+const FilterBar: React.FC<{ filterBar: IFilterBarOptions; localizer: ILocalizer }> = ({ filterBar, localizer }) => {
+    return React.createElement(
+        Stack,
+        { horizontal: true, wrap: true, tokens: { childrenGap: 8 }, className: 'matrix-filter-bar' },
+        ...filterBar.slicers.map(slicer => React.createElement(Dropdown, {
+            key: slicer.key,
+            label: slicer.label,
+            placeholder: localizer.getString('Slicer_All'),
+            multiSelect: true,
+            className: 'matrix-slicer',
+            options: slicer.options.map(option => ({ key: option.id, text: option.label })),
+            selectedKeys: slicer.selectedIds,
+            onChange: (_event: React.FormEvent, option?: IDropdownOption) => {
+                if (!option) {
+                    return;
+                }
+                const id = String(option.key);
+                filterBar.onChange(slicer.key, option.selected
+                    ? [...slicer.selectedIds, id]
+                    : slicer.selectedIds.filter(selectedId => selectedId !== id));
             }
-            numericValue = dateValue.getTime();
-        } else {
-            numericValue = Number(rawValue);
-        }
+        }))
+    );
+};
 
-        // Store value in cell data
-        const cellKey = `${rowKey}_|_${columnKey}`;
-        const cellData = cellDataMap.get(cellKey) || { values: [], count: 0 };
-        cellData.values.push(numericValue);
-        cellData.count++;
-        cellDataMap.set(cellKey, cellData);
-    });
+// Value field option that returns to the measures configured by the maker
+const CONFIGURED_MEASURES_KEY = '*';
 
-    // Calculate aggregates
-    const gridData = new Map<string, number>();
-    cellDataMap.forEach((cellData, cellKey) => {
-        let aggregatedValue: number | undefined;
+interface ILayoutPanelProps {
+    layout: ILayoutOptions;
+    onDismiss: () => void;
+    localizer: ILocalizer;
+}
 
-        switch (config.aggregationType) {
-            case 'COUNT':
-                aggregatedValue = cellData.count;
-                break;
-            
-            case 'SUM':
-                aggregatedValue = cellData.values.reduce((sum, val) => sum + val, 0);
-                break;
-            
-            case 'AVG':
-                // Only calculate average if we have values (exclude undefined/null)
-                // Zero values ARE included in the average
-                if (cellData.values.length === 0) {
-                    // Don't add this cell to gridData - no valid values
-                    aggregatedValue = undefined;
-                } else {
-                    const sum = cellData.values.reduce((sum, val) => sum + val, 0);
-                    aggregatedValue = sum / cellData.values.length;
-                }
-                break;
-            
-            case 'MIN':
-                aggregatedValue = cellData.values.length > 0 ? Math.min(...cellData.values) : undefined;
-                break;
-            
-            case 'MAX':
-                aggregatedValue = cellData.values.length > 0 ? Math.max(...cellData.values) : undefined;
-                break;
-            
-            default:
-                aggregatedValue = 0;
-                break;
-        }
+/**
+ * Side panel in which users pick the row, column and value fields and the aggregation.
+ * Changes apply right away.
+ */
+const LayoutPanel: React.FC<ILayoutPanelProps> = ({ layout, onDismiss, localizer }) => {
+    const { fields, groupByRow, groupByColumn, valueField, aggregationType, hasConfiguredMeasures, percentile } = layout;
+    const getField = (name: string): ILayoutField | undefined => fields.find(field => field.name === name);
 
-        // Only add to gridData if we have a valid aggregated value
-        if (aggregatedValue !== undefined) {
-            gridData.set(cellKey, aggregatedValue);
+    // A hierarchy or a field with its own date grouping is offered as it was configured
+    const getFieldListOptions = (fieldList: string): IDropdownOption[] => {
+        const options: IDropdownOption[] = fields.map(field => ({ key: field.name, text: field.displayName }));
+        if (!getField(fieldList)) {
+            const text = fieldList
+                .split(',')
+                .map(entry => entry.split(':')[0].trim())
+                .map(name => getField(name)?.displayName || name)
+                .join(' > ');
+            options.unshift({ key: fieldList, text });
         }
-    });
+        return options;
+    };
 
-    // Sort keys using smart comparison (handles numbers and text)
-    const smartSort = (a: string, b: string): number => {
-        const aNum = Number(a);
-        const bNum = Number(b);
-        
-        if (!isNaN(aNum) && !isNaN(bNum)) {
-            return aNum - bNum;
+    // Only a single view column is stored as a choice; the configured list is the default
+    const getFieldListChoice = (key: string): string | undefined => getField(key) ? key : undefined;
+
+    const valueOptions: IDropdownOption[] = [
+        ...(hasConfiguredMeasures ? [{ key: CONFIGURED_MEASURES_KEY, text: localizer.getString('Layout_ConfiguredMeasures') }] : []),
+        { key: '', text: localizer.getString('Layout_CountRecords') },
+        ...fields.map(field => ({ key: field.name, text: field.displayName }))
+    ];
+    const availableAggregationTypes = valueField === undefined
+        ? []
+        : getAvailableAggregationTypes(valueField ? getField(valueField)?.dataType : undefined);
+
+    const onValueChange = (key: string): void => {
+        if (key === CONFIGURED_MEASURES_KEY) {
+            layout.onChange({ valueField: undefined, aggregationType: undefined });
+            return;
         }
-        
-        return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+        // Keep the aggregation when the new field supports it
+        const aggregationTypes = getAvailableAggregationTypes(key ? getField(key)?.dataType : undefined);
+        layout.onChange({
+            valueField: key,
+            aggregationType: aggregationType && aggregationTypes.includes(aggregationType) ? aggregationType : aggregationTypes[0]
+        });
     };
 
-    const rowKeys = Array.from(rowSet).sort(smartSort);
-    const columnKeys = Array.from(columnSet).sort(smartSort);
+    return React.createElement(
+        Panel,
+        {
+            isOpen: true,
+            type: PanelType.smallFixedFar,
+            headerText: localizer.getString('Layout'),
+            isLightDismiss: true,
+            closeButtonAriaLabel: localizer.getString('Close'),
+            onDismiss
+        },
+        React.createElement(
+            Stack,
+            { tokens: { childrenGap: 12 } },
+            React.createElement(Dropdown, {
+                label: localizer.getString('Layout_Rows'),
+                options: getFieldListOptions(groupByRow),
+                selectedKey: groupByRow,
+                onChange: (_event: React.FormEvent, option?: IDropdownOption) => option &&
+                    layout.onChange({ groupByRow: getFieldListChoice(String(option.key)) })
+            }),
+            React.createElement(Dropdown, {
+                label: localizer.getString('Layout_Columns'),
+                options: getFieldListOptions(groupByColumn),
+                selectedKey: groupByColumn,
+                onChange: (_event: React.FormEvent, option?: IDropdownOption) => option &&
+                    layout.onChange({ groupByColumn: getFieldListChoice(String(option.key)) })
+            }),
+            React.createElement(Dropdown, {
+                label: localizer.getString('Layout_Values'),
+                options: valueOptions,
+                selectedKey: valueField ?? CONFIGURED_MEASURES_KEY,
+                onChange: (_event: React.FormEvent, option?: IDropdownOption) => option && onValueChange(String(option.key))
+            }),
+            React.createElement(Dropdown, {
+                label: localizer.getString('Layout_Aggregation'),
+                options: availableAggregationTypes.map(type => ({
+                    key: type,
+                    text: getAggregationDisplayName({ aggregationType: type, percentile }, localizer)
+                })),
+                selectedKey: aggregationType ?? null,
+                disabled: valueField === undefined,
+                onChange: (_event: React.FormEvent, option?: IDropdownOption) => option &&
+                    layout.onChange({ valueField, aggregationType: option.key as AggregationType })
+            }),
+            React.createElement(
+                Stack,
+                { horizontal: true, wrap: true, tokens: { childrenGap: 8 } },
+                React.createElement(DefaultButton, { text: localizer.getString('Layout_Swap'), onClick: layout.onSwap }),
+                React.createElement(DefaultButton, { text: localizer.getString('Layout_Reset'), disabled: !layout.isCustomized, onClick: layout.onReset })
+            )
+        )
+    );
+};
+
+// Resource keys of the view names in the view toggle
+const viewDisplayNameKeys: Record<MatrixView, string> = {
+    MATRIX: 'View_Matrix',
+    CLUSTERED_BAR: 'View_ClusteredBar',
+    STACKED_BAR: 'View_StackedBar',
+    LINE: 'View_Line',
+    PERCENT_STACKED_BAR: 'View_PercentStackedBar'
+};
 
-    return {
-        rowKeys,
-        columnKeys,
-        gridData
-    };
+/**
+ * Evenly spaced axis ticks at round steps (1, 2, 2.5 or 5 times a power of ten) covering
+ * the range and zero. Whole-number data gets whole-number steps.
+ */
+function getChartTicks(min: number, max: number, isWhole: boolean): number[] {
+    const low = Math.min(min, 0);
+    const high = Math.max(max, 0);
+    if (low === high) {
+        return [0, 1];
+    }
+    const roughStep = (high - low) / 5;
+    const magnitude = 10 ** Math.floor(Math.log10(roughStep));
+    const niceStep = [1, 2, 2.5, 5, 10].map(factor => factor * magnitude).find(step => step >= roughStep) ?? roughStep;
+    const step = isWhole ? Math.max(Math.ceil(niceStep), 1) : niceStep;
+    const first = Math.floor(low / step);
+    const last = Math.ceil(high / step);
+    // Rounding keeps floating point noise out of the labels
+    return Array.from({ length: last - first + 1 }, (_value, index) => Number(((first + index) * step).toPrecision(12)));
 }
 
-// ============================================================================
-// REACT COMPONENT
-// ============================================================================
+interface IChartSeries {
+    key: string;
+    label: string;
+    color: string;
+    values: (number | undefined)[];
+}
 
-interface IPivotTableProps {
+interface IPivotChartProps {
     pivotData: IPivotData;
-    valueColumn: ComponentFramework.PropertyHelper.DataSetApi.Column;
-    aggregationType: 'SUM' | 'AVG' | 'MIN' | 'MAX' | 'COUNT';
-    showTotals: boolean;
-    showTitle: boolean;
-    titleText: string;
+    rowGroups: IPivotGroup[];
+    columnGroups: IPivotGroup[];
+    chartType: ChartType;
+    formatter: IValueFormatter;
+    localizer: ILocalizer;
 }
 
-interface IPivotRow {
-    rowKey: string;
-    rowTotal?: number;
-    [key: string]: string | number | undefined;
-}
-
-/**
- * Format a numeric value based on column data type and aggregation type
- * Formatting rules:
- * - COUNT: Always whole numbers
- * - SUM: Preserves source format (whole->whole, decimal->decimal, currency->currency)
- * - AVG: Whole->decimal, others preserve format
- * - MIN/MAX: Preserves source format including dates
- */
-function formatValue(value: number, dataType: string, aggregationType: 'SUM' | 'AVG' | 'MIN' | 'MAX' | 'COUNT'): string {
-    // COUNT always returns whole numbers regardless of source type
-    if (aggregationType === 'COUNT') {
-        return new Intl.NumberFormat(undefined, {
-            maximumFractionDigits: 0
-        }).format(value);
-    }
-    
-    // AVERAGE on Whole Number fields returns Decimal format (not whole)
-    if (aggregationType === 'AVG' && dataType === "Whole.None") {
-        return new Intl.NumberFormat(undefined, {
-            minimumFractionDigits: 2,
-            maximumFractionDigits: 2
-        }).format(value);
-    }
-    
-    // For all other cases, format based on source data type
-    if (dataType === "Currency") {
-        return new Intl.NumberFormat(undefined, {
-            style: 'currency',
-            currency: 'USD',
-            minimumFractionDigits: 2,
-            maximumFractionDigits: 2
-        }).format(value);
-    } else if (dataType === "Decimal" || dataType === "FP") {
-        return new Intl.NumberFormat(undefined, {
-            minimumFractionDigits: 2,
-            maximumFractionDigits: 2
-        }).format(value);
-    } else if (dataType === "Whole.None") {
-        return new Intl.NumberFormat(undefined, {
-            maximumFractionDigits: 0
-        }).format(value);
-    } else if (dataType === "DateAndTime.DateOnly" || dataType === "DateAndTime.DateAndTime") {
-        // Value is stored as milliseconds timestamp, convert back to Date for display
-        // Using toLocaleDateString for both date-only and datetime fields per requirements
-        const dateObj = new Date(value);
-        return dateObj.toLocaleDateString(undefined);
-    }
-    return String(value);
-}
-
-const PivotTable: React.FC<IPivotTableProps> = ({ pivotData, valueColumn, aggregationType, showTotals, showTitle, titleText }) => {
-    const { rowKeys, columnKeys, gridData } = pivotData;
-
-    // Calculate totals
-    const columnTotals = new Map<string, number>();
-    const rowTotals = new Map<string, number>();
-    
-    // Calculate column width for even distribution
-    const totalColumns = columnKeys.length + 1 + (showTotals ? 1 : 0); // +1 for row header column
-    const columnWidth = Math.max(100, Math.floor((100 / totalColumns)));
-    
-    // Calculate column totals and row totals
-    columnKeys.forEach(colKey => {
-        let colTotal = 0;
-        let colCount = 0;
-        rowKeys.forEach(rowKey => {
-            const cellKey = `${rowKey}_|_${colKey}`;
-            const value = gridData.get(cellKey);
-            if (value !== undefined) {
-                if (aggregationType === 'COUNT') {
-                    colTotal += value;
-                    colCount++;
-                } else if (aggregationType === 'SUM' || aggregationType === 'AVG') {
-                    colTotal += value;
-                    colCount++;
-                } else if (aggregationType === 'MIN') {
-                    colTotal = colCount === 0 ? value : Math.min(colTotal, value);
-                    colCount++;
-                } else if (aggregationType === 'MAX') {
-                    colTotal = colCount === 0 ? value : Math.max(colTotal, value);
-                    colCount++;
-                }
+/**
+ * The pivot drawn as an SVG chart: innermost row groups are the categories along the
+ * horizontal axis and innermost column groups the series. Totals are left out, and one
+ * measure is charted at a time.
+ */
+const PivotChart: React.FC<IPivotChartProps> = ({ pivotData, rowGroups, columnGroups, chartType, formatter, localizer }) => {
+    const { measures, results, showValuesAs } = pivotData;
+    const [measureIndex, setMeasureIndex] = React.useState(0);
+    const measure = measures[Math.min(measureIndex, measures.length - 1)];
+    const result = results[measures.indexOf(measure)];
+
+    const rowLabels = getGroupPathLabels(rowGroups);
+    const columnLabels = getGroupPathLabels(columnGroups);
+    const categories = getGroupKeysByLevel(rowGroups)[pivotData.rowDepth - 1] ?? [];
+    const series: IChartSeries[] = (getGroupKeysByLevel(columnGroups)[pivotData.columnDepth - 1] ?? []).map((columnKey, index) => ({
+        key: columnKey,
+        label: columnLabels.get(columnKey) ?? '',
+        color: CHART_COLORS[index % CHART_COLORS.length],
+        values: categories.map(rowKey => result.gridData.get(getCellKey(rowKey, columnKey)))
+    }));
+
+    // 100% stacked bars show each value's share of the category's positive values
+    const isPercent = chartType === 'PERCENT_STACKED_BAR';
+    const isStacked = chartType === 'STACKED_BAR' || isPercent;
+    const categoryTotals = categories.map((_rowKey, index) =>
+        series.reduce((total, entry) => total + Math.max(entry.values[index] ?? 0, 0), 0));
+    const getPlotValue = (value: number | undefined, index: number): number | undefined => {
+        if (!isPercent || value === undefined) {
+            return value;
+        }
+        return value > 0 && categoryTotals[index] > 0 ? value / categoryTotals[index] : undefined;
+    };
+
+    // Stacked bars pile positive values up from zero and negative values down
+    const stacks = categories.map((_rowKey, index) => {
+        let positive = 0;
+        let negative = 0;
+        return series.map(entry => {
+            const value = getPlotValue(entry.values[index], index);
+            if (value === undefined) {
+                return undefined;
             }
-        });
-        // Only store total if we have valid values
-        if (colCount > 0) {
-            if (aggregationType === 'AVG') {
-                colTotal = colTotal / colCount;
+            const base = value >= 0 ? positive : negative;
+            if (value >= 0) {
+                positive += value;
+            } else {
+                negative += value;
             }
-            columnTotals.set(colKey, colTotal);
-        } else if (aggregationType === 'COUNT' || aggregationType === 'SUM') {
-            // For COUNT and SUM with no values, store 0
-            columnTotals.set(colKey, 0);
-        }
-        // For MIN/MAX with no values, don't store anything (cell will be blank)
+            return [base, base + value];
+        });
     });
-    
-    rowKeys.forEach(rowKey => {
-        let rowTotal = 0;
-        let rowCount = 0;
-        columnKeys.forEach(colKey => {
-            const cellKey = `${rowKey}_|_${colKey}`;
-            const value = gridData.get(cellKey);
-            if (value !== undefined) {
-                if (aggregationType === 'COUNT') {
-                    rowTotal += value;
-                    rowCount++;
-                } else if (aggregationType === 'SUM' || aggregationType === 'AVG') {
-                    rowTotal += value;
-                    rowCount++;
-                } else if (aggregationType === 'MIN') {
-                    rowTotal = rowCount === 0 ? value : Math.min(rowTotal, value);
-                    rowCount++;
-                } else if (aggregationType === 'MAX') {
-                    rowTotal = rowCount === 0 ? value : Math.max(rowTotal, value);
-                    rowCount++;
+
+    const extents = isStacked
+        ? stacks.flatMap(stack => stack.flatMap(segment => segment ?? []))
+        : series.flatMap(entry => entry.values.filter((value): value is number => value !== undefined));
+    const ticks = isPercent
+        ? [0, 0.25, 0.5, 0.75, 1]
+        : getChartTicks(
+            extents.reduce((min, value) => Math.min(min, value), 0),
+            extents.reduce((max, value) => Math.max(max, value), 0),
+            extents.every(Number.isInteger)
+        );
+    // The chart's currency values are in its records' currency, or in none when they mix currencies
+    const currencySymbol = getCellCurrencySymbol(result.grandData, formatter);
+    const formatTick = (value: number): string => isPercent
+        ? `${formatter.formatInteger(Math.round(value * 100))}%`
+        : formatDisplayValue(value, measure, showValuesAs, formatter, currencySymbol);
+    const formatPoint = (value: number, index: number): string => {
+        const share = getPlotValue(value, index);
+        const display = formatDisplayValue(value, measure, showValuesAs, formatter, currencySymbol);
+        return isPercent && share !== undefined ? `${display} (${formatter.formatDecimal(share * 100, 1)}%)` : display;
+    };
+
+    // Plot geometry: room for tick labels on the left and category labels below
+    const plotLeft = 72;
+    const plotTop = 12;
+    const plotHeight = 240;
+    const slotWidth = chartType === 'CLUSTERED_BAR' ? Math.max(48, series.length * 12 + 16) : 48;
+    const width = plotLeft + Math.max(categories.length, 1) * slotWidth + 16;
+    const height = plotTop + plotHeight + 52;
+    const minTick = ticks[0];
+    const maxTick = ticks[ticks.length - 1];
+    const getY = (value: number): number => plotTop + plotHeight * (1 - (value - minTick) / (maxTick - minTick));
+    const getSlotX = (index: number): number => plotLeft + index * slotWidth;
+    const truncate = (text: string): string => {
+        const maxLength = Math.max(Math.floor(slotWidth / 7), 4);
+        return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+    };
+    const getTooltip = (categoryIndex: number, entry: IChartSeries, value: number): string =>
+        `${rowLabels.get(categories[categoryIndex]) ?? ''}, ${entry.label}: ${formatPoint(value, categoryIndex)}`;
+
+    const renderBars = (): React.ReactElement[] => categories.flatMap((_rowKey, categoryIndex) => series.flatMap((entry, seriesIndex) => {
+        const value = entry.values[categoryIndex];
+        const segment = stacks[categoryIndex][seriesIndex];
+        if (value === undefined || !segment) {
+            return [];
+        }
+        const [from, to] = isStacked ? segment : [0, value];
+        const barWidth = isStacked ? slotWidth - 16 : (slotWidth - 16) / series.length;
+        const top = getY(Math.max(from, to));
+        return [React.createElement(
+            'rect',
+            {
+                key: `${categoryIndex}_${seriesIndex}`,
+                x: getSlotX(categoryIndex) + 8 + (isStacked ? 0 : seriesIndex * barWidth),
+                y: top,
+                width: Math.max(barWidth - 1, 1),
+                height: Math.max(getY(Math.min(from, to)) - top, 1),
+                fill: entry.color
+            },
+            React.createElement('title', null, getTooltip(categoryIndex, entry, value))
+        )];
+    }));
+
+    // Lines break where a category has no value
+    const renderLines = (): React.ReactElement[] => series.flatMap((entry, seriesIndex) => {
+        const getX = (index: number): number => getSlotX(index) + slotWidth / 2;
+        const path = entry.values
+            .map((value, index) => {
+                if (value === undefined) {
+                    return '';
                 }
-            }
-        });
-        // Only store total if we have valid values
-        if (rowCount > 0) {
-            if (aggregationType === 'AVG') {
-                rowTotal = rowTotal / rowCount;
-            }
-            rowTotals.set(rowKey, rowTotal);
-        } else if (aggregationType === 'COUNT' || aggregationType === 'SUM') {
-            // For COUNT and SUM with no values, store 0
-            rowTotals.set(rowKey, 0);
+                const command = index > 0 && entry.values[index - 1] !== undefined ? 'L' : 'M';
+                return `${command}${getX(index)},${getY(value)}`;
+            })
+            .join(' ');
+        return [
+            React.createElement('path', { key: `line_${seriesIndex}`, d: path, fill: 'none', stroke: entry.color, strokeWidth: 2 }),
+            ...entry.values.flatMap((value, index) => value !== undefined ? [React.createElement(
+                'circle',
+                { key: `point_${seriesIndex}_${index}`, cx: getX(index), cy: getY(value), r: 4, fill: entry.color },
+                React.createElement('title', null, getTooltip(index, entry, value))
+            )] : [])
+        ];
+    });
+
+    const valueAxisTitle = isPercent ? localizer.getString('Chart_PercentOfCategory', measure.label) : measure.label;
+    const categoryAxisTitle = pivotData.rowFields.map(field => field.column.displayName || field.column.name).join(' > ');
+
+    return React.createElement(
+        'div',
+        { className: 'matrix-chart' },
+        measures.length > 1 && React.createElement(Dropdown, {
+            label: localizer.getString('Chart_Measure'),
+            className: 'matrix-chart-measure',
+            selectedKey: measures.indexOf(measure),
+            options: measures.map((entry, index) => ({ key: index, text: entry.label })),
+            onChange: (_event: React.FormEvent, option?: IDropdownOption) => option && setMeasureIndex(option.key as number)
+        }),
+        React.createElement(
+            'div',
+            { className: 'matrix-chart-legend' },
+            ...series.map(entry => React.createElement(
+                'span',
+                { key: entry.key, className: 'matrix-legend-entry' },
+                React.createElement('span', { className: 'matrix-chart-legend-swatch', style: { backgroundColor: entry.color } }),
+                entry.label
+            ))
+        ),
+        React.createElement(
+            'div',
+            { className: 'matrix-chart-plot' },
+            React.createElement(
+                'svg',
+                { width, height, role: 'img', 'aria-label': localizer.getString('Chart_AriaLabel',
+                    localizer.getString(viewDisplayNameKeys[chartType]), valueAxisTitle, categoryAxisTitle) },
+                ...ticks.map(tick => React.createElement(
+                    'g',
+                    { key: `tick_${tick}` },
+                    React.createElement('line', {
+                        x1: plotLeft, x2: width - 16, y1: getY(tick), y2: getY(tick),
+                        className: tick === 0 ? 'matrix-chart-baseline' : 'matrix-chart-gridline'
+                    }),
+                    React.createElement('text', { x: plotLeft - 6, y: getY(tick), className: 'matrix-chart-tick', textAnchor: 'end', dominantBaseline: 'middle' }, formatTick(tick))
+                )),
+                ...(chartType === 'LINE' ? renderLines() : renderBars()),
+                ...categories.map((rowKey, index) => React.createElement(
+                    'text',
+                    { key: `category_${index}`, x: getSlotX(index) + slotWidth / 2, y: plotTop + plotHeight + 16, className: 'matrix-chart-tick', textAnchor: 'middle' },
+                    truncate(rowLabels.get(rowKey) ?? ''),
+                    React.createElement('title', null, rowLabels.get(rowKey) ?? '')
+                )),
+                React.createElement('text', {
+                    x: 12, y: plotTop + plotHeight / 2, className: 'matrix-chart-axis-title', textAnchor: 'middle',
+                    transform: `rotate(-90 12 ${plotTop + plotHeight / 2})`
+                }, valueAxisTitle),
+                React.createElement('text', {
+                    x: plotLeft + (width - plotLeft - 16) / 2, y: height - 8, className: 'matrix-chart-axis-title', textAnchor: 'middle'
+                }, categoryAxisTitle)
+            )
+        )
+    );
+};
+
+const PivotTable: React.FC<IPivotTableProps> = ({
+    pivotData, measuresOnRows, drillThroughMode, onSelectRecords, onOpenRecord, getRecordReference,
+    showTotals, showTitle, titleText, truncatedAt, conditionalFormatting, emptyCellDisplay, formatter, localizer, showExport, layout,
+    filterBar, onSelectCell, view, onViewChange
+}) => {
+    const { rowKeys, columnKeys, rowGroups, columnGroups, columnDepth, measures, results } = pivotData;
+
+    // Groups the user has collapsed (all groups start expanded)
+    const [collapsedRows, setCollapsedRows] = React.useState<Set<string>>(() => new Set<string>());
+    const [collapsedColumns, setCollapsedColumns] = React.useState<Set<string>>(() => new Set<string>());
+
+    // Cell whose records are listed in the drill-through panel
+    const [drillThrough, setDrillThrough] = React.useState<IDrillThrough | undefined>(undefined);
+
+    // Interactive sorting: rows by a column's values, columns by the total row (label order when unset)
+    const [rowSort, setRowSort] = React.useState<IRowSort | undefined>(undefined);
+    const [columnSort, setColumnSort] = React.useState<IColumnSort | undefined>(undefined);
+
+    const [isLayoutPanelOpen, setIsLayoutPanelOpen] = React.useState(false);
+
+    // Selected cell, exposed to the form through the control's output properties
+    const [selectedCell, setSelectedCell] = React.useState<ICellSelection | undefined>(undefined);
+
+    // Derived data is memoized, so renders that only change what is shown (scrolling,
+    // selection, collapsing) do not walk the whole pivot again
+    const rowPathLabels = React.useMemo(() => getGroupPathLabels(rowGroups), [rowGroups]);
+    const columnPathLabels = React.useMemo(() => getGroupPathLabels(columnGroups), [columnGroups]);
+    const hasColorScale = !!conditionalFormatting.colorScale;
+    const colorScaleDomains = React.useMemo(
+        () => (hasColorScale ? getColorScaleDomains(pivotData) : []),
+        [pivotData, hasColorScale]
+    );
+    const displayRowGroups = React.useMemo(() => rowSort
+        ? sortGroupsByValue(rowGroups, group => {
+            const result = results[rowSort.measureIndex];
+            return rowSort.isTotal ? result.rowTotals.get(group.key) : result.gridData.get(getCellKey(group.key, rowSort.columnKey));
+        }, rowSort.direction)
+        : rowGroups, [rowGroups, results, rowSort]);
+    const displayColumnGroups = React.useMemo(() => columnSort
+        ? sortGroupsByValue(columnGroups, group => results[columnSort.measureIndex].columnTotals.get(group.key), columnSort.direction)
+        : columnGroups, [columnGroups, results, columnSort]);
+    const leafColumnKeys = React.useMemo(
+        () => new Set(getGroupKeysByLevel(columnGroups)[columnDepth - 1] ?? []),
+        [columnGroups, columnDepth]
+    );
+
+    // Keyboard navigation: one cell is the grid's tab stop and arrow keys move it. A cell
+    // scrolled out of a virtualized table is focused once it has been rendered.
+    const gridId = React.useId();
+    const tableRef = React.useRef<HTMLTableElement>(null);
+    const [activeCell, setActiveCell] = React.useState<[number, number]>([0, 0]);
+    const pendingFocusRef = React.useRef<[number, number] | undefined>(undefined);
+    React.useEffect(() => {
+        const pendingFocus = pendingFocusRef.current;
+        const cell = pendingFocus && tableRef.current?.querySelector<HTMLElement>(
+            `td[data-row="${pendingFocus[0]}"][data-col="${pendingFocus[1]}"]`);
+        if (cell) {
+            pendingFocusRef.current = undefined;
+            cell.focus();
         }
-        // For MIN/MAX with no values, don't store anything (cell will be blank)
     });
 
-    // Build columns for DetailsList
-    const columns: IColumn[] = [
-        {
-            key: 'rowHeader',
-            name: '',
-            fieldName: 'rowKey',
-            minWidth: 150,
-            isResizable: true,
-            isRowHeader: true,
-            data: 'string',
-            onRender: (item: IPivotRow) => {
-                return React.createElement(
-                    Text,
-                    { 
-                        variant: "medium", 
-                        style: { 
-                            fontWeight: item.rowKey === 'TOTAL' ? 700 : 600,
-                            textAlign: 'center',
-                            display: 'block'
-                        } 
-                    },
-                    item.rowKey
-                );
+    // Large tables only render the body rows in view. The range follows scrolling of the
+    // control and of the page around it, as the host may let the control grow instead.
+    // The listeners are registered while a virtualized body is mounted.
+    const containerRef = React.useRef<HTMLDivElement>(null);
+    const [virtualBody, setVirtualBody] = React.useState<HTMLTableSectionElement | null>(null);
+    const [visibleRows, setVisibleRows] = React.useState<[number, number]>([0, VIRTUAL_INITIAL_ROWS]);
+    React.useEffect(() => {
+        if (!virtualBody) {
+            return undefined;
+        }
+        let frame = 0;
+        const update = (): void => {
+            frame = 0;
+            const container = containerRef.current;
+            if (!container) {
+                return;
             }
-        },
-        ...columnKeys.map((colKey, index) => ({
-            key: `col_${index}`,
-            name: colKey,
-            fieldName: colKey,
-            minWidth: columnWidth,
-            isResizable: true,
-            data: 'number',
-            styles: {
-                root: { textAlign: 'center' },
-                cellTitle: { textAlign: 'center', justifyContent: 'center' }
-            },
-            onRender: (item: IPivotRow) => {
-                const value = item[colKey];
-                return React.createElement(
-                    Text,
-                    { 
-                        variant: "medium", 
-                        style: { 
-                            textAlign: 'center', 
-                            display: 'block',
-                            fontWeight: item.rowKey === 'TOTAL' ? 700 : 400
-                        } 
-                    },
-                    value !== undefined && value !== null && typeof value === 'number'
-                        ? formatValue(value, valueColumn.dataType, aggregationType)
-                        : '-'
-                );
+            const bodyTop = virtualBody.getBoundingClientRect().top;
+            const containerRect = container.getBoundingClientRect();
+            const viewTop = Math.max(containerRect.top, 0) - bodyTop;
+            const viewBottom = Math.min(containerRect.bottom, window.innerHeight) - bodyTop;
+            const first = Math.max(Math.floor(viewTop / VIRTUAL_ROW_HEIGHT) - VIRTUAL_OVERSCAN_ROWS, 0);
+            const last = Math.max(Math.ceil(viewBottom / VIRTUAL_ROW_HEIGHT), 0) + VIRTUAL_OVERSCAN_ROWS;
+            setVisibleRows(previous => (previous[0] === first && previous[1] === last ? previous : [first, last]));
+        };
+        const scheduleUpdate = (): void => {
+            if (!frame) {
+                frame = window.requestAnimationFrame(update);
             }
-        })),
-        ...(showTotals ? [{
-            key: 'rowTotal',
-            name: 'TOTAL',
-            fieldName: 'rowTotal',
-            minWidth: columnWidth,
-            isResizable: true,
-            data: 'number',
-            styles: {
-                root: { textAlign: 'center' },
-                cellTitle: { textAlign: 'center', justifyContent: 'center' }
+        };
+        scheduleUpdate();
+        window.addEventListener('scroll', scheduleUpdate, true);
+        window.addEventListener('resize', scheduleUpdate);
+        return () => {
+            window.cancelAnimationFrame(frame);
+            window.removeEventListener('scroll', scheduleUpdate, true);
+            window.removeEventListener('resize', scheduleUpdate);
+        };
+    }, [virtualBody]);
+
+    // Handle empty data
+    if (rowKeys.length === 0 || columnKeys.length === 0) {
+        return React.createElement(
+            Stack,
+            { horizontalAlign: "center", verticalAlign: "center", style: { padding: 20 } },
+            React.createElement(Text, { variant: "large" }, localizer.getString('NoData'))
+        );
+    }
+
+    // Label of the total row and column
+    const totalLabel = localizer.getString('Total');
+
+    const toggleGroup = (setCollapsed: React.Dispatch<React.SetStateAction<Set<string>>>, key: string): void => {
+        setCollapsed(previous => {
+            const next = new Set(previous);
+            if (next.has(key)) {
+                next.delete(key);
+            } else {
+                next.add(key);
+            }
+            return next;
+        });
+    };
+
+    const renderToggle = (group: IPivotGroup, expanded: boolean, onToggle: () => void): React.ReactElement => {
+        return React.createElement(
+            'button',
+            {
+                type: 'button',
+                className: 'pcf-toggle',
+                'aria-expanded': expanded,
+                'aria-label': localizer.getString(expanded ? 'Collapse' : 'Expand', group.label),
+                onClick: onToggle
             },
-            onRender: (item: IPivotRow) => {
-                const value = item.rowTotal;
+            expanded ? '▾' : '▸'
+        );
+    };
+
+    /**
+     * Currency values show their records' transaction currency; cells that combine several
+     * currencies show no currency symbol
+     */
+    const renderValue = (value: number | undefined, measureIndex: number, cellData?: ICellData): string => {
+        const measure = measures[measureIndex];
+        const currencySymbol = getCellCurrencySymbol(cellData, formatter);
+        const displayValue = value ?? getEmptyCellValue(measure, emptyCellDisplay);
+        if (displayValue === undefined) {
+            return emptyCellDisplay === 'DASH' ? '-' : '';
+        }
+        return formatDisplayValue(displayValue, measure, pivotData.showValuesAs, formatter, currencySymbol);
+    };
+
+    // ------------------------------------------------------------------------
+    // Conditional formatting: color scales and rules apply to data cells only,
+    // i.e. innermost rows and columns, never subtotals or totals
+    // ------------------------------------------------------------------------
+
+    const { colorScale, rules } = conditionalFormatting;
+
+    const getMeasureRules = (measureIndex: number): IFormattingRule[] => {
+        return rules.filter(rule => !rule.measureLabel || rule.measureLabel === measures[measureIndex].label);
+    };
+
+    /**
+     * Style and icon of a data cell. The first matching rule wins; its background
+     * takes precedence over the color scale, and its text color is only kept while readable.
+     */
+    const getCellFormat = (value: number, measureIndex: number): { style?: React.CSSProperties; icon?: string } => {
+        const domain = colorScaleDomains[measureIndex];
+        const rule = getMeasureRules(measureIndex).find(candidate => matchesFormattingRule(value, candidate));
+        const backgroundColor = rule?.backgroundColor ?? (colorScale && domain ? getColorScaleColor(value, domain, colorScale) : undefined);
+        const color = backgroundColor ? getReadableTextColor(backgroundColor, rule?.textColor) : rule?.textColor;
+        if (!backgroundColor && !color && !rule?.bold && !rule?.icon) {
+            return {};
+        }
+        return {
+            style: { backgroundColor, color, fontWeight: rule?.bold ? 600 : undefined },
+            icon: rule?.icon
+        };
+    };
+
+    const renderLegend = (): React.ReactElement | undefined => {
+        const entries = measures.flatMap((measure, measureIndex) => {
+            const domain = colorScaleDomains[measureIndex];
+            const measureRules = getMeasureRules(measureIndex);
+            const measurePrefix = measures.length > 1 ? `${measure.label}: ` : '';
+            const scaleEntry = colorScale && domain ? [React.createElement(
+                'span',
+                { key: `scale_${measureIndex}`, className: 'matrix-legend-entry' },
+                `${measurePrefix}${renderValue(domain.min, measureIndex)}`,
+                React.createElement('span', {
+                    className: 'matrix-legend-gradient',
+                    style: { background: `linear-gradient(to right, ${colorScale.colors.join(', ')})` }
+                }),
+                renderValue(domain.max, measureIndex)
+            )] : [];
+            // Rules shared by every measure are listed once
+            const ruleEntries = measureRules
+                .filter(rule => rule.measureLabel || measureIndex === 0)
+                .map((rule, ruleIndex) => React.createElement(
+                    'span',
+                    { key: `rule_${measureIndex}_${ruleIndex}`, className: 'matrix-legend-entry' },
+                    React.createElement(
+                        'span',
+                        {
+                            className: 'matrix-legend-swatch',
+                            style: {
+                                backgroundColor: rule.backgroundColor,
+                                color: rule.backgroundColor ? getReadableTextColor(rule.backgroundColor, rule.textColor) : rule.textColor,
+                                fontWeight: rule.bold ? 600 : undefined
+                            }
+                        },
+                        rule.icon ?? 'A'
+                    ),
+                    rule.measureLabel ? `${rule.measureLabel} ${rule.condition}` : rule.condition
+                ));
+            return [...scaleEntry, ...ruleEntries];
+        });
+        return entries.length > 0
+            ? React.createElement('div', { className: 'matrix-legend' }, ...entries)
+            : undefined;
+    };
+
+    /**
+     * Active filters as chips in the title area, each removable on its own
+     */
+    const renderActiveFilters = (): React.ReactElement | undefined => {
+        const activeSlicers = filterBar?.slicers.filter(slicer => slicer.selectedIds.length > 0) ?? [];
+        if (!filterBar || activeSlicers.length === 0) {
+            return undefined;
+        }
+        return React.createElement(
+            'div',
+            { className: 'matrix-active-filters' },
+            ...activeSlicers.map(slicer => {
+                const labels = slicer.selectedIds.map(id => slicer.options.find(option => option.id === id)?.label ?? id);
                 return React.createElement(
-                    Text,
-                    { 
-                        variant: "medium", 
-                        style: { 
-                            textAlign: 'center', 
-                            display: 'block',
-                            fontWeight: 700
-                        } 
-                    },
-                    value !== undefined && value !== null && typeof value === 'number'
-                        ? formatValue(value, valueColumn.dataType, aggregationType)
-                        : '-'
+                    'span',
+                    { key: slicer.key, className: 'matrix-filter-chip' },
+                    `${slicer.label}: ${labels.join(', ')}`,
+                    React.createElement('button', {
+                        type: 'button',
+                        className: 'matrix-filter-chip-remove',
+                        'aria-label': localizer.getString('Filter_RemoveOn', slicer.label),
+                        title: localizer.getString('Filter_Remove'),
+                        onClick: () => filterBar.onChange(slicer.key, [])
+                    }, '×')
                 );
+            }),
+            activeSlicers.length > 1 && React.createElement(Link, { onClick: filterBar.onClear }, localizer.getString('Filter_ClearAll'))
+        );
+    };
+
+    const getSelectionRecordIds = (selection: ICellSelection): string[] =>
+        getRecordIds(pivotData, selection.measureIndex, selection.rowKey, selection.columnKey);
+
+    const selectCell = (
+        selection: ICellSelection | undefined,
+        recordIds = selection ? getSelectionRecordIds(selection) : []
+    ): void => {
+        setSelectedCell(selection);
+        onSelectCell(selection, recordIds);
+    };
+
+    const isSelectedCell = (selection: ICellSelection): boolean => {
+        return !!selectedCell && selectedCell.rowKey === selection.rowKey &&
+            selectedCell.columnKey === selection.columnKey && selectedCell.measureIndex === selection.measureIndex;
+    };
+
+    /**
+     * Props that make a cell with records selectable and drillable. Click or Enter selects the
+     * cell and drills through, either selecting its records in the host grid or listing them
+     * in the side panel; Space toggles the selection and Escape clears it.
+     */
+    const getCellInteractionProps = (
+        selection: ICellSelection,
+        title: string
+    ): React.TdHTMLAttributes<HTMLTableCellElement> => {
+        if (selection.recordCount === 0) {
+            return {};
+        }
+
+        const isSelected = isSelectedCell(selection);
+        const activate = (): void => {
+            if (drillThroughMode === 'NONE') {
+                // Without drill-through a click toggles the selection
+                selectCell(isSelected ? undefined : selection);
+                return;
             }
-        }] : [])
-    ];
+            const recordIds = getSelectionRecordIds(selection);
+            selectCell(selection, recordIds);
+            if (drillThroughMode === 'SELECT') {
+                onSelectRecords(recordIds);
+            } else {
+                setDrillThrough({ title, recordIds });
+            }
+        };
 
-    // Build rows for DetailsList
-    const rows: IPivotRow[] = rowKeys.map(rowKey => {
-        const row: IPivotRow = { rowKey };
-        
-        columnKeys.forEach(colKey => {
-            const cellKey = `${rowKey}_|_${colKey}`;
-            const value = gridData.get(cellKey);
-            row[colKey] = value; // Keep as undefined if no value
+        return {
+            title: `${title} (${selection.recordCount})`,
+            onClick: activate,
+            onKeyDown: (event: React.KeyboardEvent<HTMLTableCellElement>) => {
+                if (event.key === 'Enter') {
+                    event.preventDefault();
+                    activate();
+                } else if (event.key === ' ') {
+                    event.preventDefault();
+                    selectCell(isSelected ? undefined : selection);
+                } else if (event.key === 'Escape' && selectedCell) {
+                    event.preventDefault();
+                    selectCell(undefined);
+                }
+            }
+        };
+    };
+
+    // Measures either get a sub-column under every column group, or a line within every row group
+    const measureIndexes = measures.map((_, index) => index);
+    const showMeasureHeader = !measuresOnRows && measures.length > 1;
+    const columnMeasureIndexes = measuresOnRows ? [] : measureIndexes;
+    const columnMeasureCount = measuresOnRows ? 1 : measures.length;
+    const headerDepth = columnDepth + (showMeasureHeader ? 1 : 0);
+
+    // ------------------------------------------------------------------------
+    // Column layout: expanded parents span their children plus a subtotal column
+    // ------------------------------------------------------------------------
+
+    const isColumnExpanded = (group: IPivotGroup): boolean => {
+        return group.children.length > 0 && !collapsedColumns.has(group.key);
+    };
+
+    const getColumnSpan = (group: IPivotGroup): number => {
+        if (!isColumnExpanded(group)) {
+            return 1;
+        }
+        return group.children.reduce((span, child) => span + getColumnSpan(child), 0) + (showTotals ? 1 : 0);
+    };
+
+    // ------------------------------------------------------------------------
+    // Sorting: clicking a column header sorts rows by that column, descending, then
+    // ascending, then back to label order; the corner control does the same for columns
+    // ------------------------------------------------------------------------
+
+    const getNextDirection = (direction: SortDirection | undefined): SortDirection | undefined => {
+        return direction === undefined ? 'DESC' : direction === 'DESC' ? 'ASC' : undefined;
+    };
+
+    const getRowSortDirection = (columnKey: string, isTotal: boolean, measureIndex: number): SortDirection | undefined => {
+        return rowSort && rowSort.columnKey === columnKey && rowSort.isTotal === isTotal && rowSort.measureIndex === measureIndex
+            ? rowSort.direction
+            : undefined;
+    };
+
+    const getAriaSort = (direction: SortDirection | undefined): 'ascending' | 'descending' | undefined => {
+        return direction ? (direction === 'ASC' ? 'ascending' : 'descending') : undefined;
+    };
+
+    const renderSortButton = (label: string, title: string, direction: SortDirection | undefined, onSort: () => void): React.ReactElement => {
+        return React.createElement(
+            'button',
+            { type: 'button', className: 'pcf-sort-button', title, onClick: onSort },
+            label,
+            direction && React.createElement('span', { className: 'pcf-sort-indicator', 'aria-hidden': true }, direction === 'ASC' ? '▲' : '▼')
+        );
+    };
+
+    /**
+     * Header content that sorts the rows by one measure's values in a column
+     */
+    const renderRowSortButton = (label: string, columnKey: string, isTotal: boolean, measureIndex: number): React.ReactElement => {
+        const direction = getRowSortDirection(columnKey, isTotal, measureIndex);
+        return renderSortButton(label, localizer.getString('Sort_RowsByColumn'), direction, () => {
+            const nextDirection = getNextDirection(direction);
+            setRowSort(nextDirection ? { columnKey, isTotal, measureIndex, direction: nextDirection } : undefined);
         });
-        
-        row.rowTotal = rowTotals.get(rowKey); // Keep as undefined if no total
-        
-        return row;
-    });
-    
+    };
+
+    const getColumnSortDirection = (measureIndex: number): SortDirection | undefined => {
+        return columnSort && columnSort.measureIndex === measureIndex ? columnSort.direction : undefined;
+    };
+
+    /**
+     * Header content that sorts the columns by one measure's totals
+     */
+    const renderColumnSortButton = (label: string, measureIndex: number): React.ReactElement => {
+        const direction = getColumnSortDirection(measureIndex);
+        return renderSortButton(label, localizer.getString('Sort_ColumnsByTotal'), direction, () => {
+            const nextDirection = getNextDirection(direction);
+            setColumnSort(nextDirection ? { measureIndex, direction: nextDirection } : undefined);
+        });
+    };
+
+    // With several measures side by side, each measure header sorts; otherwise the column header does
+    const sortsByColumnHeader = !showMeasureHeader;
+
+    const visibleColumns: IVisibleColumn[] = [];
+    const headerRows: React.ReactElement[][] = Array.from({ length: headerDepth }, () => []);
+
+    // Header cells have ids so every data cell can name its headers
+    let headerCount = 0;
+    const getHeaderId = (): string => `${gridId}-header-${headerCount++}`;
+
+    headerRows[0].push(React.createElement(
+        'th',
+        {
+            key: 'corner',
+            rowSpan: headerDepth,
+            colSpan: measuresOnRows ? 2 : 1,
+            className: 'pcf-corner',
+            'aria-sort': getAriaSort(getColumnSortDirection(0))
+        },
+        renderColumnSortButton(localizer.getString('Sort_Columns'), 0)
+    ));
+
+    const addColumnGroup = (group: IPivotGroup, parentHeaderIds: string[]): void => {
+        const expanded = isColumnExpanded(group);
+        const isSortable = !expanded && sortsByColumnHeader;
+        const headerIds = [...parentHeaderIds, getHeaderId()];
+        headerRows[group.level].push(React.createElement(
+            'th',
+            {
+                key: group.key,
+                id: headerIds[headerIds.length - 1],
+                colSpan: getColumnSpan(group) * columnMeasureCount,
+                rowSpan: expanded ? 1 : columnDepth - group.level,
+                scope: expanded || showMeasureHeader ? 'colgroup' : 'col',
+                'aria-sort': isSortable ? getAriaSort(getRowSortDirection(group.key, false, 0)) : undefined
+            },
+            group.children.length > 0 && renderToggle(group, expanded, () => toggleGroup(setCollapsedColumns, group.key)),
+            isSortable ? renderRowSortButton(group.label, group.key, false, 0) : group.label
+        ));
+
+        if (!expanded) {
+            visibleColumns.push({ key: group.key, isSubtotal: false, headerIds });
+            return;
+        }
+
+        group.children.forEach(child => addColumnGroup(child, headerIds));
+        if (showTotals) {
+            const subtotalHeaderIds = [...headerIds, getHeaderId()];
+            headerRows[group.level + 1].push(React.createElement(
+                'th',
+                {
+                    key: `${group.key}_subtotal`,
+                    id: subtotalHeaderIds[subtotalHeaderIds.length - 1],
+                    colSpan: columnMeasureCount,
+                    rowSpan: columnDepth - group.level - 1,
+                    scope: showMeasureHeader ? 'colgroup' : 'col',
+                    className: 'pcf-subtotal-cell',
+                    'aria-sort': sortsByColumnHeader ? getAriaSort(getRowSortDirection(group.key, false, 0)) : undefined
+                },
+                sortsByColumnHeader
+                    ? renderRowSortButton(localizer.getString('Subtotal', group.label), group.key, false, 0)
+                    : localizer.getString('Subtotal', group.label)
+            ));
+            visibleColumns.push({ key: group.key, isSubtotal: true, headerIds: subtotalHeaderIds });
+        }
+    };
+
+    displayColumnGroups.forEach(group => addColumnGroup(group, []));
+
+    const totalHeaderId = getHeaderId();
+    if (showTotals) {
+        headerRows[0].push(React.createElement(
+            'th',
+            {
+                key: 'rowTotal',
+                id: totalHeaderId,
+                colSpan: columnMeasureCount,
+                rowSpan: columnDepth,
+                scope: showMeasureHeader ? 'colgroup' : 'col',
+                className: 'pcf-total-cell',
+                'aria-sort': sortsByColumnHeader ? getAriaSort(getRowSortDirection('', true, 0)) : undefined
+            },
+            sortsByColumnHeader ? renderRowSortButton(totalLabel, '', true, 0) : totalLabel
+        ));
+    }
+
+    // One measure label per data column, under every column group and the TOTAL column
+    const getMeasureHeaderId = (columnIndex: number, measureIndex: number): string =>
+        `${gridId}-measure-${columnIndex}-${measureIndex}`;
+    if (showMeasureHeader) {
+        const measureHeaderColumns = [
+            ...visibleColumns.map(column => ({ key: column.key, isTotal: false })),
+            ...(showTotals ? [{ key: '', isTotal: true }] : [])
+        ];
+        measureHeaderColumns.forEach((column, columnIndex) => {
+            measureIndexes.forEach(measureIndex => {
+                headerRows[columnDepth].push(React.createElement(
+                    'th',
+                    {
+                        key: `${column.isTotal ? 'rowTotal' : column.key}_${measureIndex}`,
+                        id: getMeasureHeaderId(columnIndex, measureIndex),
+                        scope: 'col',
+                        className: 'pcf-measure-header',
+                        'aria-sort': getAriaSort(getRowSortDirection(column.key, column.isTotal, measureIndex))
+                    },
+                    renderRowSortButton(measures[measureIndex].label, column.key, column.isTotal, measureIndex)
+                ));
+            });
+        });
+    }
+
+    // ------------------------------------------------------------------------
+    // Row layout: parent rows show their subtotals and can be collapsed
+    // ------------------------------------------------------------------------
+
+    // Body cells have grid coordinates: the row within the body, the column among data cells.
+    // The tab stop is set when the body is rendered (see renderBody).
+    const cellColumnCount = (visibleColumns.length + (showTotals ? 1 : 0)) * columnMeasureCount;
+    let tabStop: [number, number] = activeCell;
+
+    // Each row group's table rows are only created when they are rendered
+    const bodyBlocks: { rowCount: number; render: (firstRow: number) => React.ReactElement[] }[] = [];
+
+    /**
+     * Adds the table row(s) for one row group or the total row: a single row with every
+     * measure side by side, or one row per measure when measures are on rows
+     */
+    const addRowLines = (
+        key: string,
+        rowKey: string | undefined,
+        rowLabel: string,
+        className: string | undefined,
+        isLeafRow: boolean,
+        renderHeader: (rowSpan: number, id: string) => React.ReactElement,
+        getCell: (result: IMeasureResult, columnKey: string) => [number | undefined, ICellData | undefined],
+        getTotal: (result: IMeasureResult) => [number | undefined, ICellData | undefined]
+    ): void => {
+        const rowHeaderId = `${gridId}-row-${bodyBlocks.length}`;
+
+        const renderCell = (
+            cellKey: string,
+            cellClassName: string | undefined,
+            [value, cellData]: [number | undefined, ICellData | undefined],
+            columnKey: string | undefined,
+            columnLabel: string,
+            measureIndex: number,
+            isDataCell: boolean,
+            [rowIndex, columnIndex]: [number, number],
+            headerIds: string[]
+        ): React.ReactElement => {
+            const selection: ICellSelection = {
+                rowKey,
+                columnKey,
+                rowLabel,
+                columnLabel,
+                measureIndex,
+                measureLabel: measures[measureIndex].label,
+                value,
+                recordCount: cellData?.count ?? 0
+            };
+            const cellTitle = `${rowLabel}, ${columnLabel}, ${selection.measureLabel}`;
+            const interactionProps = getCellInteractionProps(selection, cellTitle);
+            const interactionClassName = interactionProps.onClick
+                ? (drillThroughMode !== 'NONE' ? 'pcf-drillable' : 'pcf-selectable')
+                : undefined;
+            const isSelected = isSelectedCell(selection);
+            const { style, icon } = isDataCell && value !== undefined ? getCellFormat(value, measureIndex) : {};
+            return React.createElement(
+                'td',
+                {
+                    key: cellKey,
+                    ...interactionProps,
+                    tabIndex: rowIndex === tabStop[0] && columnIndex === tabStop[1] ? 0 : -1,
+                    headers: headerIds.join(' '),
+                    'aria-label': localizer.getString('Cell_AriaLabel', cellTitle,
+                        value !== undefined ? renderValue(value, measureIndex, cellData) : localizer.getString('Cell_NoValue')),
+                    'aria-selected': interactionProps.onClick ? isSelected : undefined,
+                    'data-row': rowIndex,
+                    'data-col': columnIndex,
+                    className: [cellClassName, interactionClassName, isSelected ? 'pcf-selected' : undefined]
+                        .filter(Boolean).join(' ') || undefined,
+                    style
+                },
+                icon && React.createElement('span', { className: 'pcf-cell-icon', 'aria-hidden': true }, icon),
+                renderValue(value, measureIndex, cellData)
+            );
+        };
+
+        const lineMeasureIndexes = measuresOnRows ? measureIndexes : [undefined];
+        bodyBlocks.push({
+            rowCount: lineMeasureIndexes.length,
+            render: (firstRow: number) => lineMeasureIndexes.map((lineMeasureIndex, position) => {
+                const rowIndex = firstRow + position;
+                const cellMeasureIndexes = lineMeasureIndex === undefined ? columnMeasureIndexes : [lineMeasureIndex];
+                const lineHeaderId = `${rowHeaderId}-${position}`;
+                const rowHeaderIds = lineMeasureIndex !== undefined ? [rowHeaderId, lineHeaderId] : [rowHeaderId];
+                let columnIndex = 0;
+                return React.createElement(
+                    'tr',
+                    { key: `${key}_${position}`, className, 'aria-rowindex': headerDepth + rowIndex + 1 },
+                    position === 0 && renderHeader(lineMeasureIndexes.length, rowHeaderId),
+                    // With measures on rows, the total row's measure headers sort the columns by that measure
+                    lineMeasureIndex !== undefined && React.createElement(
+                        'th',
+                        {
+                            id: lineHeaderId,
+                            scope: 'row',
+                            className: 'pcf-measure-header',
+                            'aria-sort': rowKey === undefined ? getAriaSort(getColumnSortDirection(lineMeasureIndex)) : undefined
+                        },
+                        rowKey === undefined
+                            ? renderColumnSortButton(measures[lineMeasureIndex].label, lineMeasureIndex)
+                            : measures[lineMeasureIndex].label
+                    ),
+                    ...visibleColumns.flatMap((column, visibleIndex) => cellMeasureIndexes.map(measureIndex => renderCell(
+                        `${column.key}_${measureIndex}`,
+                        column.isSubtotal ? 'pcf-subtotal-cell' : undefined,
+                        getCell(results[measureIndex], column.key),
+                        column.key,
+                        column.isSubtotal
+                            ? localizer.getString('Subtotal', columnPathLabels.get(column.key) ?? '')
+                            : columnPathLabels.get(column.key) ?? '',
+                        measureIndex,
+                        isLeafRow && leafColumnKeys.has(column.key),
+                        [rowIndex, columnIndex++],
+                        [...rowHeaderIds, ...(column.headerIds ?? []),
+                            ...(showMeasureHeader ? [getMeasureHeaderId(visibleIndex, measureIndex)] : [])]
+                    ))),
+                    ...(showTotals ? cellMeasureIndexes.map(measureIndex => renderCell(
+                        `rowTotal_${measureIndex}`,
+                        'pcf-total-cell',
+                        getTotal(results[measureIndex]),
+                        undefined,
+                        totalLabel,
+                        measureIndex,
+                        false,
+                        [rowIndex, columnIndex++],
+                        [...rowHeaderIds, totalHeaderId,
+                            ...(showMeasureHeader ? [getMeasureHeaderId(visibleColumns.length, measureIndex)] : [])]
+                    )) : [])
+                );
+            })
+        });
+    };
+
+    const addRowGroup = (group: IPivotGroup): void => {
+        const isParent = group.children.length > 0;
+        const expanded = isParent && !collapsedRows.has(group.key);
+
+        addRowLines(
+            `group_${group.key}`,
+            group.key,
+            rowPathLabels.get(group.key) ?? '',
+            isParent ? 'pcf-subtotal-row' : undefined,
+            !isParent,
+            (rowSpan, id) => React.createElement(
+                'th',
+                { id, scope: 'row', rowSpan, style: { paddingLeft: 12 + group.level * 16 } },
+                isParent && renderToggle(group, expanded, () => toggleGroup(setCollapsedRows, group.key)),
+                group.label
+            ),
+            (result, columnKey) => {
+                const cellKey = getCellKey(group.key, columnKey);
+                return [result.gridData.get(cellKey), result.cellData.get(cellKey)];
+            },
+            result => [result.rowTotals.get(group.key), result.rowData.get(group.key)]
+        );
+
+        if (expanded) {
+            group.children.forEach(addRowGroup);
+        }
+    };
+
+    displayRowGroups.forEach(addRowGroup);
+
     // Add total row if enabled
     if (showTotals) {
-        const totalRow: IPivotRow = { rowKey: 'TOTAL' };
-        columnKeys.forEach(colKey => {
-            totalRow[colKey] = columnTotals.get(colKey); // Keep as undefined if no total
+        addRowLines(
+            'columnTotal',
+            undefined,
+            totalLabel,
+            'pcf-total-row',
+            false,
+            (rowSpan, id) => React.createElement('th', { id, scope: 'row', rowSpan }, totalLabel),
+            (result, columnKey) => [result.columnTotals.get(columnKey), result.columnData.get(columnKey)],
+            result => [result.grandTotal, result.grandData]
+        );
+    }
+
+    // Rows outside the visible range are replaced by spacers of the same height. Blocks are
+    // rendered whole, so a header spanning a row group's measure rows is never cut.
+    const bodyRowCount = bodyBlocks.reduce((count, block) => count + block.rowCount, 0);
+    const isVirtualized = bodyRowCount > VIRTUALIZATION_THRESHOLD;
+    const renderBody = (): React.ReactElement[] => {
+        const [firstRow, lastRow] = isVirtualized ? visibleRows : [0, bodyRowCount];
+        const renderedBlocks: { block: typeof bodyBlocks[number]; firstRow: number }[] = [];
+        let rowsBefore = 0;
+        let rowsAfter = 0;
+        let row = 0;
+        bodyBlocks.forEach(block => {
+            if (row + block.rowCount <= firstRow) {
+                rowsBefore += block.rowCount;
+            } else if (row >= lastRow) {
+                rowsAfter += block.rowCount;
+            } else {
+                renderedBlocks.push({ block, firstRow: row });
+            }
+            row += block.rowCount;
         });
-        
-        // Calculate grand total
-        let grandTotal = 0;
-        let grandCount = 0;
-        rowKeys.forEach(rowKey => {
-            const rowTotal = rowTotals.get(rowKey);
-            if (rowTotal !== undefined) {
-                if (aggregationType === 'COUNT' || aggregationType === 'SUM') {
-                    grandTotal += rowTotal;
-                    grandCount++;
-                } else if (aggregationType === 'AVG') {
-                    grandTotal += rowTotal;
-                    grandCount++;
-                } else if (aggregationType === 'MIN') {
-                    grandTotal = grandCount === 0 ? rowTotal : Math.min(grandTotal, rowTotal);
-                    grandCount++;
-                } else if (aggregationType === 'MAX') {
-                    grandTotal = grandCount === 0 ? rowTotal : Math.max(grandTotal, rowTotal);
-                    grandCount++;
-                }
+
+        // The tab stop moves to the first rendered row while the active cell is scrolled away
+        const activeRow = Math.min(activeCell[0], bodyRowCount - 1);
+        const activeColumn = Math.min(activeCell[1], cellColumnCount - 1);
+        tabStop = activeRow >= rowsBefore && activeRow < bodyRowCount - rowsAfter
+            ? [activeRow, activeColumn]
+            : [rowsBefore, activeColumn];
+
+        const renderSpacer = (position: 'before' | 'after', rowCount: number): React.ReactElement => React.createElement(
+            'tr',
+            { key: `spacer_${position}`, className: 'pcf-spacer-row', 'aria-hidden': true, 'data-spacer': position },
+            React.createElement('td', { style: { height: rowCount * VIRTUAL_ROW_HEIGHT } })
+        );
+        return [
+            ...(rowsBefore > 0 ? [renderSpacer('before', rowsBefore)] : []),
+            ...renderedBlocks.flatMap(rendered => rendered.block.render(rendered.firstRow)),
+            ...(rowsAfter > 0 ? [renderSpacer('after', rowsAfter)] : [])
+        ];
+    };
+
+    /**
+     * Moves the grid's tab stop to a cell and focuses it. In a virtualized table, a cell
+     * outside the rendered rows is scrolled towards and focused once it has been rendered.
+     */
+    const focusCell = (row: number, column: number): void => {
+        setActiveCell([row, column]);
+        const cell = tableRef.current?.querySelector<HTMLElement>(`td[data-row="${row}"][data-col="${column}"]`);
+        if (cell) {
+            cell.focus();
+            return;
+        }
+        pendingFocusRef.current = [row, column];
+        const isBefore = row < tabStop[0];
+        tableRef.current?.querySelector<HTMLElement>(`tr[data-spacer="${isBefore ? 'before' : 'after'}"]`)
+            ?.scrollIntoView({ block: isBefore ? 'start' : 'end' });
+    };
+
+    /**
+     * Arrow keys move between cells, Home and End to the first and last cell of the row,
+     * and Ctrl+Home and Ctrl+End to the first and last cell of the grid
+     */
+    const onGridKeyDown = (event: React.KeyboardEvent<HTMLTableElement>): void => {
+        const { row: rowData, col: columnData } = (event.target as HTMLElement).dataset;
+        if (rowData === undefined || columnData === undefined) {
+            return;
+        }
+        const row = Number(rowData);
+        const column = Number(columnData);
+        const lastRow = bodyRowCount - 1;
+        const lastColumn = cellColumnCount - 1;
+        const moves: Record<string, [number, number]> = {
+            ArrowUp: [row - 1, column],
+            ArrowDown: [row + 1, column],
+            ArrowLeft: [row, column - 1],
+            ArrowRight: [row, column + 1],
+            Home: event.ctrlKey ? [0, 0] : [row, 0],
+            End: event.ctrlKey ? [lastRow, lastColumn] : [row, lastColumn]
+        };
+        const move = moves[event.key];
+        if (!move) {
+            return;
+        }
+        event.preventDefault();
+        focusCell(Math.min(Math.max(move[0], 0), lastRow), Math.min(Math.max(move[1], 0), lastColumn));
+    };
+
+    // Clicking or tabbing into a cell makes it the tab stop
+    const onGridFocus = (event: React.FocusEvent<HTMLTableElement>): void => {
+        const { row, col } = (event.target as HTMLElement).dataset;
+        if (row !== undefined && col !== undefined) {
+            setActiveCell(previous => (previous[0] === Number(row) && previous[1] === Number(col)
+                ? previous
+                : [Number(row), Number(col)]));
+        }
+    };
+
+    const exportMatrix = (format: 'CSV' | 'XLSX'): void => {
+        // The export follows the current sort order
+        const sheet = buildExportSheet(
+            { ...pivotData, rowGroups: displayRowGroups, columnGroups: displayColumnGroups },
+            { titleText, showTotals, measuresOnRows, emptyCellDisplay, formatter, localizer }
+        );
+        const fileName = getExportFileName(titleText);
+        if (format === 'CSV') {
+            // The byte order mark makes Excel read the file as UTF-8
+            downloadFile(`\ufeff${toCsv(sheet)}`, `${fileName}.csv`, 'text/csv;charset=utf-8');
+        } else {
+            downloadFile(createXlsx(sheet, localizer.getString('Export_SheetName')), `${fileName}.xlsx`,
+                'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        }
+    };
+
+    // Groups of split multi-select fields overlap, so their sum can exceed the total
+    const splitFieldNames = [...pivotData.rowFields, ...pivotData.columnFields]
+        .filter(field => field.isSplit)
+        .map(field => field.column.displayName || field.column.name);
+
+    return React.createElement(
+        'div',
+        { ref: containerRef, style: { width: '100%', height: '100%', overflow: 'auto' } },
+        showTitle && React.createElement(
+            'div',
+            { className: 'matrix-title-container' },
+            React.createElement('h2', { className: 'matrix-title' }, titleText),
+            React.createElement('div', { className: 'matrix-title-accent' })
+        ),
+        renderActiveFilters(),
+        filterBar && filterBar.slicers.length > 0 && React.createElement(FilterBar, { filterBar, localizer }),
+        view === 'MATRIX' && renderLegend(),
+        (showExport || layout || onViewChange) && React.createElement(
+            Stack,
+            { horizontal: true, horizontalAlign: 'end', tokens: { childrenGap: 8 }, className: 'matrix-toolbar' },
+            onViewChange && React.createElement(Dropdown, {
+                ariaLabel: localizer.getString('View'),
+                className: 'matrix-view-toggle',
+                selectedKey: view,
+                options: (Object.keys(viewDisplayNameKeys) as MatrixView[])
+                    .map(key => ({ key, text: localizer.getString(viewDisplayNameKeys[key]) })),
+                onChange: (_event: React.FormEvent, option?: IDropdownOption) => option && onViewChange(option.key as MatrixView)
+            }),
+            layout && React.createElement(DefaultButton, { text: localizer.getString('Layout'), onClick: () => setIsLayoutPanelOpen(true) }),
+            showExport && React.createElement(DefaultButton, { text: localizer.getString('Export_Csv'), onClick: () => exportMatrix('CSV') }),
+            showExport && React.createElement(DefaultButton, { text: localizer.getString('Export_Excel'), onClick: () => exportMatrix('XLSX') })
+        ),
+        truncatedAt !== undefined && React.createElement(
+            MessageBar,
+            { messageBarType: MessageBarType.warning, className: 'matrix-truncation-warning' },
+            localizer.getString('ResultsTruncated', formatter.formatInteger(truncatedAt))
+        ),
+        splitFieldNames.length > 0 && React.createElement(
+            MessageBar,
+            { messageBarType: MessageBarType.info, className: 'matrix-overlap-note' },
+            localizer.getString('SplitGroupsOverlap', splitFieldNames.join(', '))
+        ),
+        view === 'MATRIX'
+            ? React.createElement(
+                'table',
+                {
+                    ref: tableRef,
+                    className: isVirtualized ? 'pcf-table pcf-virtualized' : 'pcf-table',
+                    role: 'grid',
+                    'aria-label': titleText,
+                    'aria-rowcount': headerDepth + bodyRowCount,
+                    onKeyDown: onGridKeyDown,
+                    onFocus: onGridFocus
+                },
+                React.createElement(
+                    'thead',
+                    null,
+                    ...headerRows.map((cells, level) => React.createElement('tr', { key: level, 'aria-rowindex': level + 1 }, ...cells))
+                ),
+                React.createElement('tbody', { ref: isVirtualized ? setVirtualBody : undefined }, ...renderBody())
+            )
+            : React.createElement(PivotChart, {
+                pivotData,
+                rowGroups: displayRowGroups,
+                columnGroups: displayColumnGroups,
+                chartType: view,
+                formatter,
+                localizer
+            }),
+        drillThrough && React.createElement(DrillThroughPanel, {
+            drillThrough,
+            getRecordReference,
+            onOpenRecord,
+            onDismiss: () => setDrillThrough(undefined),
+            formatter,
+            localizer
+        }),
+        isLayoutPanelOpen && layout && React.createElement(LayoutPanel, {
+            layout,
+            onDismiss: () => setIsLayoutPanelOpen(false),
+            localizer
+        })
+    );
+};
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+// Excel's built-in number formats, which need no declaration in the workbook
+const builtinExcelNumberFormats: Record<string, number> = {
+    'General': 0,
+    '0': 1,
+    '0.00': 2,
+    '#,##0': 3,
+    '#,##0.00': 4,
+    'm/d/yyyy': 14
+};
+
+/**
+ * A cell of the exported sheet. Numeric cells carry their value and an Excel number format;
+ * the text is what the matrix displays and is what the CSV export contains.
+ */
+interface IExportCell {
+    text: string;
+    value?: number;
+    numberFormat?: string;
+    isBold?: boolean;
+}
+
+/**
+ * A merged range, in zero-based sheet coordinates
+ */
+interface IExportMerge {
+    row: number;
+    column: number;
+    rowSpan: number;
+    columnSpan: number;
+}
+
+/**
+ * The matrix laid out as a grid of cells. Cells covered by a merged range are left undefined.
+ */
+interface IExportSheet {
+    rows: (IExportCell | undefined)[][];
+    merges: IExportMerge[];
+    rowHeaderCount: number;
+}
+
+interface IExportOptions {
+    titleText: string;
+    showTotals: boolean;
+    measuresOnRows: boolean;
+    emptyCellDisplay: EmptyCellDisplay;
+    formatter: IValueFormatter;
+    localizer: ILocalizer;
+}
+
+/**
+ * Excel number format matching how formatDisplayValue shows a measure's values
+ */
+function getExcelNumberFormat(measure: IPivotMeasure, showValuesAs: ShowValuesAs, currencySymbol: string): string {
+    const withDecimals = (precision: number): string => (precision > 0 ? `#,##0.${'0'.repeat(precision)}` : '#,##0');
+
+    if (isShowValuesAsApplicable(measure)) {
+        if (showValuesAs === 'PERCENT_OF_ROW' || showValuesAs === 'PERCENT_OF_COLUMN' ||
+            showValuesAs === 'PERCENT_OF_GRAND' || showValuesAs === 'PERCENT_DIFFERENCE') {
+            return '0.0%';
+        }
+        if (showValuesAs === 'RANK_IN_ROW' || showValuesAs === 'RANK_IN_COLUMN') {
+            return '0';
+        }
+    }
+
+    if (measure.aggregationType === 'COUNT' || measure.aggregationType === 'DISTINCTCOUNT') {
+        return '#,##0';
+    }
+    if (measure.aggregationType === 'VARIANCE') {
+        return withDecimals(2);
+    }
+    if ((measure.aggregationType === 'AVG' || measure.aggregationType === 'MEDIAN' || measure.aggregationType === 'PERCENTILE' ||
+        measure.aggregationType === 'STDDEV') && measure.dataType === 'Whole.None') {
+        return withDecimals(2);
+    }
+
+    if (measure.dataType === 'Currency') {
+        const symbol = currencySymbol.replace(/"/g, '');
+        return symbol ? `"${symbol}"${withDecimals(measure.precision ?? 2)}` : withDecimals(measure.precision ?? 2);
+    } else if (measure.dataType === 'Decimal' || measure.dataType === 'FP') {
+        return withDecimals(measure.precision ?? 2);
+    } else if (measure.dataType === 'Whole.None') {
+        return '#,##0';
+    } else if (isDateDataType(measure.dataType)) {
+        return 'm/d/yyyy';
+    }
+    return 'General';
+}
+
+/**
+ * Excel date serial number (days since 30 Dec 1899) of the date's local date and time
+ */
+function toExcelDate(date: Date): number {
+    const utcTime = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(),
+        date.getHours(), date.getMinutes(), date.getSeconds());
+    return (utcTime - Date.UTC(1899, 11, 30)) / 86400000;
+}
+
+/**
+ * Lays out the whole pivot for export: the title, the column headers (nested headers merged
+ * across their children), one column per row level, and every row and column with its
+ * subtotals and totals. Collapsed groups in the matrix are exported expanded.
+ */
+function buildExportSheet(pivotData: IPivotData, options: IExportOptions): IExportSheet {
+    const { rowGroups, columnGroups, rowFields, columnDepth, measures, results, showValuesAs } = pivotData;
+    const { titleText, showTotals, measuresOnRows, emptyCellDisplay, formatter, localizer } = options;
+    const totalLabel = localizer.getString('Total');
+
+    const measureIndexes = measures.map((_, index) => index);
+    const columnMeasureIndexes = measuresOnRows ? [0] : measureIndexes;
+    const showMeasureHeader = !measuresOnRows && measures.length > 1;
+    const rowHeaderCount = rowFields.length + (measuresOnRows ? 1 : 0);
+    const headerRowCount = columnDepth + (showMeasureHeader ? 1 : 0);
+    const tableTop = 2;
+
+    const rows: (IExportCell | undefined)[][] = [[{ text: titleText, isBold: true }], []];
+    const merges: IExportMerge[] = [];
+    const setCell = (row: number, column: number, cell: IExportCell, rowSpan = 1, columnSpan = 1): void => {
+        while (rows.length <= row) {
+            rows.push([]);
+        }
+        rows[row][column] = cell;
+        if (rowSpan > 1 || columnSpan > 1) {
+            merges.push({ row, column, rowSpan, columnSpan });
+        }
+    };
+
+    // Column headers; data columns are collected in display order as they are placed
+    const dataColumns: IVisibleColumn[] = [];
+    let nextColumn = rowHeaderCount;
+    const addColumnHeader = (group: IPivotGroup): void => {
+        const start = nextColumn;
+        if (group.children.length === 0) {
+            setCell(tableTop + group.level, start, { text: group.label, isBold: true }, columnDepth - group.level, columnMeasureIndexes.length);
+            dataColumns.push({ key: group.key, isSubtotal: false });
+            nextColumn += columnMeasureIndexes.length;
+            return;
+        }
+
+        group.children.forEach(addColumnHeader);
+        if (showTotals) {
+            setCell(tableTop + group.level + 1, nextColumn, { text: localizer.getString('Subtotal', group.label), isBold: true },
+                columnDepth - group.level - 1, columnMeasureIndexes.length);
+            dataColumns.push({ key: group.key, isSubtotal: true });
+            nextColumn += columnMeasureIndexes.length;
+        }
+        setCell(tableTop + group.level, start, { text: group.label, isBold: true }, 1, nextColumn - start);
+    };
+    columnGroups.forEach(addColumnHeader);
+
+    if (showTotals) {
+        setCell(tableTop, nextColumn, { text: totalLabel, isBold: true }, columnDepth, columnMeasureIndexes.length);
+    }
+
+    if (showMeasureHeader) {
+        const measureHeaderCount = dataColumns.length + (showTotals ? 1 : 0);
+        for (let position = 0; position < measureHeaderCount; position++) {
+            measureIndexes.forEach(measureIndex => {
+                setCell(tableTop + columnDepth, rowHeaderCount + position * measures.length + measureIndex,
+                    { text: measures[measureIndex].label, isBold: true });
+            });
+        }
+    }
+
+    // Row field names label the row header columns
+    rowFields.forEach((field, level) => {
+        setCell(tableTop + headerRowCount - 1, level, { text: field.column.displayName || field.column.name, isBold: true });
+    });
+
+    // Cells without a value are left empty, unless empty cells show zero
+    const getValueCell = (
+        cellValue: number | undefined,
+        cellData: ICellData | undefined,
+        measureIndex: number,
+        isBold: boolean
+    ): IExportCell | undefined => {
+        const measure = measures[measureIndex];
+        const value = cellValue ?? getEmptyCellValue(measure, emptyCellDisplay);
+        if (value === undefined) {
+            return undefined;
+        }
+        const currencySymbol = getCellCurrencySymbol(cellData, formatter);
+        // Measures whose values are dates are the ones Show Values As does not apply to
+        const isDateValue = !isShowValuesAsApplicable(measure);
+        return {
+            text: formatDisplayValue(value, measure, showValuesAs, formatter, currencySymbol),
+            value: isDateValue ? toExcelDate(toUserDate(value, measure.dataType, formatter)) : value,
+            numberFormat: getExcelNumberFormat(measure, showValuesAs, currencySymbol),
+            isBold
+        };
+    };
+
+    let nextRow = tableTop + headerRowCount;
+    const addLines = (
+        label: string,
+        level: number,
+        labelSpan: number,
+        isBold: boolean,
+        getCell: (result: IMeasureResult, columnKey: string) => [number | undefined, ICellData | undefined],
+        getTotal: (result: IMeasureResult) => [number | undefined, ICellData | undefined]
+    ): void => {
+        const lineMeasureIndexes = measuresOnRows ? measureIndexes : [undefined];
+        setCell(nextRow, level, { text: label, isBold }, lineMeasureIndexes.length, labelSpan);
+        lineMeasureIndexes.forEach(lineMeasureIndex => {
+            const cellMeasureIndexes = lineMeasureIndex === undefined ? measureIndexes : [lineMeasureIndex];
+            if (lineMeasureIndex !== undefined) {
+                setCell(nextRow, rowFields.length, { text: measures[lineMeasureIndex].label, isBold });
             }
+            let column = rowHeaderCount;
+            dataColumns.forEach(dataColumn => {
+                cellMeasureIndexes.forEach(measureIndex => {
+                    const [value, cellData] = getCell(results[measureIndex], dataColumn.key);
+                    const cell = getValueCell(value, cellData, measureIndex, isBold || dataColumn.isSubtotal);
+                    if (cell) {
+                        setCell(nextRow, column, cell);
+                    }
+                    column++;
+                });
+            });
+            if (showTotals) {
+                cellMeasureIndexes.forEach(measureIndex => {
+                    const [value, cellData] = getTotal(results[measureIndex]);
+                    const cell = getValueCell(value, cellData, measureIndex, true);
+                    if (cell) {
+                        setCell(nextRow, column, cell);
+                    }
+                    column++;
+                });
+            }
+            nextRow++;
         });
-        if (aggregationType === 'AVG' && grandCount > 0) {
-            grandTotal = grandTotal / grandCount;
+    };
+
+    const addRowGroup = (group: IPivotGroup): void => {
+        addLines(
+            group.label,
+            group.level,
+            1,
+            group.children.length > 0,
+            (result, columnKey) => {
+                const cellKey = getCellKey(group.key, columnKey);
+                return [result.gridData.get(cellKey), result.cellData.get(cellKey)];
+            },
+            result => [result.rowTotals.get(group.key), result.rowData.get(group.key)]
+        );
+        group.children.forEach(addRowGroup);
+    };
+    rowGroups.forEach(addRowGroup);
+
+    if (showTotals) {
+        addLines(
+            totalLabel,
+            0,
+            rowFields.length,
+            true,
+            (result, columnKey) => [result.columnTotals.get(columnKey), result.columnData.get(columnKey)],
+            result => [result.grandTotal, result.grandData]
+        );
+    }
+
+    return { rows, merges, rowHeaderCount };
+}
+
+/**
+ * CSV of the sheet as displayed; merged headers appear once, in their first cell
+ */
+function toCsv(sheet: IExportSheet): string {
+    const escape = (text: string): string => (/[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+    const width = sheet.rows.reduce((max, row) => Math.max(max, row.length), 0);
+    return sheet.rows
+        .map(row => Array.from({ length: width }, (_, column) => escape(row[column]?.text ?? '')).join(','))
+        .join('\r\n');
+}
+
+let crc32Table: Uint32Array | undefined;
+
+function getCrc32(data: Uint8Array): number {
+    if (!crc32Table) {
+        crc32Table = new Uint32Array(256);
+        for (let index = 0; index < 256; index++) {
+            let value = index;
+            for (let bit = 0; bit < 8; bit++) {
+                value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+            }
+            crc32Table[index] = value >>> 0;
         }
-        // Only set grand total if we have valid values
-        if (grandCount > 0) {
-            totalRow.rowTotal = grandTotal;
-        } else if (aggregationType === 'COUNT' || aggregationType === 'SUM') {
-            totalRow.rowTotal = 0;
+    }
+    let crc = 0xffffffff;
+    for (const byte of data) {
+        crc = crc32Table[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Packs files into an uncompressed ZIP archive, the container format of .xlsx files
+ */
+function createZip(files: { name: string; content: string }[]): Uint8Array {
+    const encoder = new TextEncoder();
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    files.forEach(file => {
+        const name = encoder.encode(file.name);
+        const data = encoder.encode(file.content);
+        const crc = getCrc32(data);
+
+        const local = new Uint8Array(30 + name.length);
+        const localView = new DataView(local.buffer);
+        localView.setUint32(0, 0x04034b50, true);
+        localView.setUint16(4, 20, true);
+        localView.setUint16(6, 0x0800, true); // UTF-8 file names
+        localView.setUint16(12, 0x0021, true); // 1 Jan 1980
+        localView.setUint32(14, crc, true);
+        localView.setUint32(18, data.length, true);
+        localView.setUint32(22, data.length, true);
+        localView.setUint16(26, name.length, true);
+        local.set(name, 30);
+
+        const central = new Uint8Array(46 + name.length);
+        const centralView = new DataView(central.buffer);
+        centralView.setUint32(0, 0x02014b50, true);
+        centralView.setUint16(4, 20, true);
+        centralView.setUint16(6, 20, true);
+        centralView.setUint16(8, 0x0800, true);
+        centralView.setUint16(14, 0x0021, true);
+        centralView.setUint32(16, crc, true);
+        centralView.setUint32(20, data.length, true);
+        centralView.setUint32(24, data.length, true);
+        centralView.setUint16(28, name.length, true);
+        centralView.setUint32(42, offset, true);
+        central.set(name, 46);
+
+        localParts.push(local, data);
+        centralParts.push(central);
+        offset += local.length + data.length;
+    });
+
+    const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054b50, true);
+    endView.setUint16(8, files.length, true);
+    endView.setUint16(10, files.length, true);
+    endView.setUint32(12, centralSize, true);
+    endView.setUint32(16, offset, true);
+
+    const parts = [...localParts, ...centralParts, end];
+    const zip = new Uint8Array(offset + centralSize + end.length);
+    let position = 0;
+    parts.forEach(part => {
+        zip.set(part, position);
+        position += part.length;
+    });
+    return zip;
+}
+
+function escapeXml(text: string): string {
+    // Control characters other than tab and line breaks are not allowed in XML
+    // (group keys use one as a separator)
+    const xmlText = Array.from(text, char => char.charCodeAt(0) < 0x20 && !'\t\n\r'.includes(char) ? ' ' : char).join('');
+    return xmlText
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+/**
+ * Column letters of a zero-based column index (0 -> A, 26 -> AA)
+ */
+function getColumnName(column: number): string {
+    let name = '';
+    for (let index = column + 1; index > 0; index = Math.floor((index - 1) / 26)) {
+        name = String.fromCharCode(65 + ((index - 1) % 26)) + name;
+    }
+    return name;
+}
+
+/**
+ * Writes the sheet as a single-worksheet .xlsx workbook. Numbers keep their values with
+ * an Excel number format; text is written inline, so no shared string table is needed.
+ */
+function createXlsx(sheet: IExportSheet, sheetName: string): Uint8Array {
+    const customFormats = new Map<string, number>();
+    const styleIndexes = new Map<string, number>();
+    const cellFormats = ['<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'];
+
+    const getStyleIndex = (cell: IExportCell): number => {
+        if (!cell.numberFormat && !cell.isBold) {
+            return 0;
         }
-        // For MIN/MAX with no values, leave rowTotal as undefined
-        
-        rows.push(totalRow);
+        let numberFormatId = 0;
+        if (cell.numberFormat) {
+            numberFormatId = builtinExcelNumberFormats[cell.numberFormat] ?? customFormats.get(cell.numberFormat) ?? 164 + customFormats.size;
+            if (numberFormatId >= 164) {
+                customFormats.set(cell.numberFormat, numberFormatId);
+            }
+        }
+        const fontId = cell.isBold ? 1 : 0;
+        const key = `${numberFormatId}|${fontId}`;
+        let styleIndex = styleIndexes.get(key);
+        if (styleIndex === undefined) {
+            styleIndex = cellFormats.length;
+            styleIndexes.set(key, styleIndex);
+            cellFormats.push(`<xf numFmtId="${numberFormatId}" fontId="${fontId}" fillId="0" borderId="0" xfId="0"` +
+                `${numberFormatId ? ' applyNumberFormat="1"' : ''}${fontId ? ' applyFont="1"' : ''}/>`);
+        }
+        return styleIndex;
+    };
+
+    const rowsXml = sheet.rows.map((row, rowIndex) => {
+        const cellsXml = row.map((cell, column) => {
+            if (!cell) {
+                return '';
+            }
+            const reference = `${getColumnName(column)}${rowIndex + 1}`;
+            const styleIndex = getStyleIndex(cell);
+            const style = styleIndex ? ` s="${styleIndex}"` : '';
+            return cell.value !== undefined && isFinite(cell.value)
+                ? `<c r="${reference}"${style}><v>${cell.value}</v></c>`
+                : `<c r="${reference}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell.text)}</t></is></c>`;
+        }).join('');
+        return `<row r="${rowIndex + 1}">${cellsXml}</row>`;
+    }).join('');
+
+    const width = sheet.rows.reduce((max, row) => Math.max(max, row.length), 0);
+    const columnsXml = Array.from({ length: width }, (_, column) =>
+        `<col min="${column + 1}" max="${column + 1}" width="${column < sheet.rowHeaderCount ? 24 : 14}" customWidth="1"/>`).join('');
+    const mergesXml = sheet.merges.length > 0
+        ? `<mergeCells count="${sheet.merges.length}">${sheet.merges.map(merge =>
+            `<mergeCell ref="${getColumnName(merge.column)}${merge.row + 1}:` +
+            `${getColumnName(merge.column + merge.columnSpan - 1)}${merge.row + merge.rowSpan}"/>`).join('')}</mergeCells>`
+        : '';
+
+    const xmlDeclaration = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+    const mainNamespace = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+    const relationshipNamespace = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+    const numberFormatsXml = customFormats.size > 0
+        ? `<numFmts count="${customFormats.size}">${Array.from(customFormats).map(([code, id]) =>
+            `<numFmt numFmtId="${id}" formatCode="${escapeXml(code)}"/>`).join('')}</numFmts>`
+        : '';
+
+    return createZip([
+        {
+            name: '[Content_Types].xml',
+            content: `${xmlDeclaration}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+                '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+                '<Default Extension="xml" ContentType="application/xml"/>' +
+                '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+                '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+                '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+                '</Types>'
+        },
+        {
+            name: '_rels/.rels',
+            content: `${xmlDeclaration}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+                `<Relationship Id="rId1" Type="${relationshipNamespace}/officeDocument" Target="xl/workbook.xml"/>` +
+                '</Relationships>'
+        },
+        {
+            name: 'xl/workbook.xml',
+            content: `${xmlDeclaration}<workbook xmlns="${mainNamespace}" xmlns:r="${relationshipNamespace}">` +
+                `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`
+        },
+        {
+            name: 'xl/_rels/workbook.xml.rels',
+            content: `${xmlDeclaration}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+                `<Relationship Id="rId1" Type="${relationshipNamespace}/worksheet" Target="worksheets/sheet1.xml"/>` +
+                `<Relationship Id="rId2" Type="${relationshipNamespace}/styles" Target="styles.xml"/>` +
+                '</Relationships>'
+        },
+        {
+            name: 'xl/worksheets/sheet1.xml',
+            content: `${xmlDeclaration}<worksheet xmlns="${mainNamespace}"><cols>${columnsXml}</cols>` +
+                `<sheetData>${rowsXml}</sheetData>${mergesXml}</worksheet>`
+        },
+        {
+            // Written last so that it includes every format the cells registered
+            name: 'xl/styles.xml',
+            content: `${xmlDeclaration}<styleSheet xmlns="${mainNamespace}">${numberFormatsXml}` +
+                '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+                '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+                '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+                '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+                `<cellXfs count="${cellFormats.length}">${cellFormats.join('')}</cellXfs>` +
+                '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+                '</styleSheet>'
+        }
+    ]);
+}
+
+/**
+ * A file name from the matrix title, without characters Windows does not allow
+ */
+function getExportFileName(titleText: string): string {
+    const fileName = titleText.replace(/[\\/:*?"<>|]+/g, '-').replace(/\s+/g, ' ').trim().slice(0, 100);
+    return fileName || 'Matrix';
+}
+
+/**
+ * Saves generated content through a temporary download link
+ */
+function downloadFile(content: string | Uint8Array, fileName: string, mimeType: string): void {
+    const url = URL.createObjectURL(new Blob([content as BlobPart], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    // Revoking right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// ============================================================================
+// FILTERING
+// ============================================================================
+
+// Condition operators of dataset filters (see ConditionOperator in the Dataverse SDK)
+const CONDITION_LESS_THAN = 3;
+const CONDITION_GREATER_EQUAL = 4;
+const CONDITION_IN = 8;
+const CONDITION_NULL = 12;
+
+// How the conditions of a filter combine
+const FILTER_AND = 0;
+const FILTER_OR = 1;
+
+/**
+ * Whether a field's groups can be turned back into a dataset filter. Numeric bins,
+ * weekdays and fields holding several values (multi-select option sets, party lists) cannot.
+ */
+function isSlicerSupported(field: IGroupField): boolean {
+    return !field.binning && field.dateGrouping !== 'DAY_OF_WEEK' &&
+        field.column.dataType !== 'MultiSelectOptionSet' && field.column.dataType !== 'Lookup.PartyList';
+}
+
+/**
+ * Converts the start of a date bucket, in the user's time zone, to a filter value:
+ * a calendar date for date-only fields, a UTC timestamp otherwise
+ */
+function toFilterDate(date: Date, dataType: string, formatter: IValueFormatter): string {
+    const pad = (value: number): string => String(value).padStart(2, '0');
+    if (dataType === 'DateAndTime.DateOnly') {
+        return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    }
+    const userTime = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes());
+    return new Date(userTime - formatter.getTimeZoneOffsetMinutes(new Date(userTime)) * 60000).toISOString();
+}
+
+/**
+ * Builds the filter that keeps the records in any of a slicer's selected groups:
+ * a date range per date bucket, and the group values themselves otherwise
+ */
+function getSlicerFilter(
+    field: IGroupField,
+    values: IGroupValue[],
+    formatter: IValueFormatter
+): ComponentFramework.PropertyHelper.DataSetApi.FilterExpression {
+    const attributeName = field.column.name;
+    const conditions: ComponentFramework.PropertyHelper.DataSetApi.ConditionExpression[] = [];
+    const filters: ComponentFramework.PropertyHelper.DataSetApi.FilterExpression[] = [];
+
+    if (values.some(value => value.id === BLANK_GROUP_ID)) {
+        conditions.push({ attributeName, conditionOperator: CONDITION_NULL, value: '' });
     }
 
-    // Handle empty data
-    if (rowKeys.length === 0 || columnKeys.length === 0) {
-        return React.createElement(
-            Stack,
-            { horizontalAlign: "center", verticalAlign: "center", style: { padding: 20 } },
-            React.createElement(Text, { variant: "large" }, "No data to display")
-        );
+    const selectedValues = values.filter(value => value.id !== BLANK_GROUP_ID);
+    const dateGrouping = field.dateGrouping;
+    if (dateGrouping) {
+        selectedValues.forEach(value => {
+            const bucketStart = new Date(value.sortValue as number);
+            filters.push({
+                filterOperator: FILTER_AND,
+                conditions: [
+                    { attributeName, conditionOperator: CONDITION_GREATER_EQUAL, value: toFilterDate(bucketStart, field.column.dataType, formatter) },
+                    {
+                        attributeName,
+                        conditionOperator: CONDITION_LESS_THAN,
+                        value: toFilterDate(getNextDateBucketStart(bucketStart, dateGrouping), field.column.dataType, formatter)
+                    }
+                ]
+            });
+        });
+    } else if (selectedValues.length > 0) {
+        // Yes/No values are compared as 1 and 0
+        const filterValues = selectedValues.map(value =>
+            field.column.dataType === 'TwoOptions' ? (value.id === 'true' ? '1' : '0') : value.id);
+        conditions.push({ attributeName, conditionOperator: CONDITION_IN, value: filterValues });
     }
 
-    return React.createElement(
-        'div',
-        { style: { width: '100%', height: '100%', overflow: 'auto' } },
-        showTitle && React.createElement(
-            'div',
-            { className: 'matrix-title-container' },
-            React.createElement('h2', { className: 'matrix-title' }, titleText),
-            React.createElement('div', { className: 'matrix-title-accent' })
-        ),
-        React.createElement(DetailsList, {
-            items: rows,
-            columns: columns,
-            layoutMode: DetailsListLayoutMode.fixedColumns,
-            selectionMode: SelectionMode.none,
-            isHeaderVisible: true,
-            compact: false
-        })
-    );
-};
+    return { filterOperator: FILTER_OR, conditions, filters };
+}
 
 // ============================================================================
 // PCF CONTROL CLASS
 // ============================================================================
 
+// Resource keys of the display names used in measure labels and the generated title
+const aggregationDisplayNameKeys: Record<AggregationType, string> = {
+    'COUNT': 'Aggregation_Count',
+    'SUM': 'Aggregation_Sum',
+    'AVG': 'Aggregation_Average',
+    'MIN': 'Aggregation_Minimum',
+    'MAX': 'Aggregation_Maximum',
+    'DISTINCTCOUNT': 'Aggregation_DistinctCount',
+    'MEDIAN': 'Aggregation_Median',
+    'PERCENTILE': 'Aggregation_Percentile',
+    'STDDEV': 'Aggregation_StandardDeviation',
+    'VARIANCE': 'Aggregation_Variance',
+    'CALCULATED': 'Aggregation_Calculated'
+};
+
+/**
+ * Gets the display name of a measure's aggregation, e.g. "Sum" or "90th Percentile".
+ * The ordinal's resource key follows English suffixes; other languages can word all four alike.
+ */
+function getAggregationDisplayName(measure: Pick<IMeasureConfig, 'aggregationType' | 'percentile'>, localizer: ILocalizer): string {
+    if (measure.aggregationType !== 'PERCENTILE') {
+        return localizer.getString(aggregationDisplayNameKeys[measure.aggregationType]);
+    }
+
+    const percentile = measure.percentile ?? DEFAULT_PERCENTILE;
+    const lastTwoDigits = Math.floor(percentile) % 100;
+    const ordinalKey = lastTwoDigits >= 11 && lastTwoDigits <= 13
+        ? 'Ordinal_Other'
+        : ({ 1: 'Ordinal_One', 2: 'Ordinal_Two', 3: 'Ordinal_Few' } as Record<number, string>)[lastTwoDigits % 10] || 'Ordinal_Other';
+    return localizer.getString('Aggregation_NthPercentile', localizer.getString(ordinalKey, percentile));
+}
+
+// Resource keys of the display names used in the generated title, e.g. "Sum of Est. Revenue (% of Row Total)"
+const showValuesAsDisplayNameKeys: Record<ShowValuesAs, string> = {
+    'VALUE': 'ShowValuesAs_Value',
+    'PERCENT_OF_ROW': 'ShowValuesAs_PercentOfRow',
+    'PERCENT_OF_COLUMN': 'ShowValuesAs_PercentOfColumn',
+    'PERCENT_OF_GRAND': 'ShowValuesAs_PercentOfGrand',
+    'RUNNING_TOTAL': 'ShowValuesAs_RunningTotal',
+    'DIFFERENCE': 'ShowValuesAs_Difference',
+    'PERCENT_DIFFERENCE': 'ShowValuesAs_PercentDifference',
+    'RANK_IN_ROW': 'ShowValuesAs_RankInRow',
+    'RANK_IN_COLUMN': 'ShowValuesAs_RankInColumn'
+};
+
+// Resource keys of the display names used in the generated title
+const dateGroupingDisplayNameKeys: Record<DateGrouping, string> = {
+    'DAY': 'DateGrouping_Day',
+    'WEEK': 'DateGrouping_Week',
+    'MONTH': 'DateGrouping_Month',
+    'QUARTER': 'DateGrouping_Quarter',
+    'YEAR': 'DateGrouping_Year',
+    'FISCAL_QUARTER': 'DateGrouping_FiscalQuarter',
+    'FISCAL_YEAR': 'DateGrouping_FiscalYear',
+    'DAY_OF_WEEK': 'DateGrouping_DayOfWeek'
+};
+
+/**
+ * Reads a stored layout, keeping only well-formed choices
+ */
+function parseUserLayout(value: string): IUserLayout {
+    const stored = JSON.parse(value) as Record<string, unknown>;
+    const layout: IUserLayout = {};
+    if (typeof stored.groupByRow === 'string') {
+        layout.groupByRow = stored.groupByRow;
+    }
+    if (typeof stored.groupByColumn === 'string') {
+        layout.groupByColumn = stored.groupByColumn;
+    }
+    if (typeof stored.valueField === 'string' && typeof stored.aggregationType === 'string' &&
+        stored.aggregationType in aggregationDisplayNameKeys) {
+        layout.valueField = stored.valueField;
+        layout.aggregationType = stored.aggregationType as AggregationType;
+    }
+    if (stored.axesSwapped === true) {
+        layout.axesSwapped = true;
+    }
+    return layout;
+}
+
+// Default colors of the color scales: white to green, and red through yellow to green
+const defaultColorScaleColors: Record<number, string[]> = {
+    2: ['#ffffff', '#63be7b'],
+    3: ['#f8696b', '#ffeb84', '#63be7b']
+};
+
+// Icons accepted by icon= in the Formatting Rules property
+const formattingRuleIcons: Record<string, string> = {
+    'up': '▲',
+    'down': '▼',
+    'flag': '⚑',
+    'warning': '⚠',
+    'check': '✓',
+    'cross': '✗',
+    'dot': '●',
+    'star': '★'
+};
+
+/**
+ * Parses the Color Scale Colors property (comma-separated hex colors), falling back
+ * to the default colors for the scale when it is empty
+ */
+function parseColorScale(value: string | null, colorCount: number, localizer: ILocalizer): IColorScale {
+    if (!value || !value.trim()) {
+        return { colors: defaultColorScaleColors[colorCount] };
+    }
+
+    const colors = value.split(',').map(color => color.trim());
+    const invalidColor = colors.find(color => !/^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(color));
+    if (invalidColor !== undefined) {
+        throw new Error(localizer.getString('Error_InvalidColor', invalidColor));
+    }
+    if (colors.length !== colorCount) {
+        throw new Error(localizer.getString('Error_ColorCount', colorCount, colors.length));
+    }
+    return { colors };
+}
+
+/**
+ * Parses a threshold in a formatting rule; a trailing % divides by 100, so "> 50%"
+ * matches percentages shown by Show Values As
+ */
+function parseRuleNumber(text: string, entry: string, localizer: ILocalizer): number {
+    const isPercent = text.endsWith('%');
+    const number = Number(isPercent ? text.slice(0, -1) : text);
+    if (text === '' || !isFinite(number)) {
+        throw new Error(localizer.getString('Error_InvalidRuleNumber', text, entry));
+    }
+    return isPercent ? number / 100 : number;
+}
+
+/**
+ * Parses the Formatting Rules property: rules separated by semicolons or new lines, each
+ * written as "[Measure Label] condition: format, format", e.g. "> 100000: bg=#dff6dd, bold" or
+ * "between 0 and 10%: color=#a4262c, icon=down". The measure label is optional.
+ */
+function parseFormattingRules(value: string | null, localizer: ILocalizer): IFormattingRule[] {
+    if (!value) {
+        return [];
+    }
+
+    return value
+        .split(/[;\n]/)
+        .map(entry => entry.trim())
+        .filter(entry => entry.length > 0)
+        .map(entry => {
+            const match = /^(?:\[([^\]]+)\]\s*)?(?:(>=|<=|<>|!=|>|<|=)\s*(\S+)|between\s+(\S+)\s+and\s+(\S+))\s*:\s*(.+)$/i.exec(entry);
+            if (!match) {
+                throw new Error(localizer.getString('Error_InvalidRule', entry));
+            }
+
+            const isBetween = match[2] === undefined;
+            const rule: IFormattingRule = {
+                measureLabel: match[1]?.trim(),
+                operator: isBetween ? 'BETWEEN' : match[2] === '!=' ? '<>' : match[2] as FormattingRuleOperator,
+                value: parseRuleNumber(isBetween ? match[4] : match[3], entry, localizer),
+                maxValue: isBetween ? parseRuleNumber(match[5], entry, localizer) : undefined,
+                condition: isBetween ? localizer.getString('Rule_Between', match[4], match[5]) : `${match[2]} ${match[3]}`,
+                bold: false
+            };
+
+            match[6].split(',').map(format => format.trim()).filter(Boolean).forEach(format => {
+                const [name, argument] = format.split('=').map(part => part.trim());
+                const setting = name.toLowerCase();
+                if (setting === 'bold' && argument === undefined) {
+                    rule.bold = true;
+                } else if ((setting === 'bg' || setting === 'color') && argument && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(argument)) {
+                    if (setting === 'bg') {
+                        rule.backgroundColor = argument;
+                    } else {
+                        rule.textColor = argument;
+                    }
+                } else if (setting === 'icon' && argument && formattingRuleIcons[argument.toLowerCase()]) {
+                    rule.icon = formattingRuleIcons[argument.toLowerCase()];
+                } else {
+                    throw new Error(localizer.getString('Error_InvalidRuleFormat', format, entry, Object.keys(formattingRuleIcons).join('|')));
+                }
+            });
+            return rule;
+        });
+}
+
 export class CustomMatrixPCF implements ComponentFramework.StandardControl<IInputs, IOutputs> {
     private _container: HTMLDivElement;
     private _context: ComponentFramework.Context<IInputs>;
     private _root: Root | undefined;
 
+    // Paging state used to pull every page of the view before aggregating
+    private _pagingViewId: string | undefined;
+    private _pageSizeRequested = false;
+    private _pendingPageRecordCount: number | undefined;
+    private _pageLoadStarted = false;
+    private _pagingFirstRecordId: string | undefined;
+    private _pagingLoadedCount = 0;
+    private _destroyed = false;
+
+    // Metadata, loaded once per entity and set of numeric columns: formatting, and the
+    // table's plural display name for the title
+    private _metadataKey: string | undefined;
+    private _fieldPrecisions: Record<string, number> = {};
+    private _baseCurrency: { symbol: string; precision: number } | undefined;
+    private _currencySymbols = new Map<string, string>();
+    private _currencyColumnViewId: string | undefined;
+    private _entityDisplayName: string | undefined;
+
+    // Layout chosen in the layout panel, kept per user and per control configuration
+    private _state: ComponentFramework.Dictionary | undefined;
+    private _layoutStorageKey: string | undefined;
+    private _layout: IUserLayout = {};
+
+    // Last pivot, reused while the records and configuration are unchanged
+    private _pivotCache: {
+        key: string;
+        records: ComponentFramework.PropertyTypes.DataSet['records'];
+        sortedRecordIds: string[];
+        pivotData: IPivotData;
+    } | undefined;
+
+    // View chosen with the view toggle, kept per user like the layout
+    private _viewStorageKey: string | undefined;
+    private _view: MatrixView | undefined;
+
+    // Slicers of the filter bar, their selections, and every group seen per slicer since the view was loaded
+    private _slicers: ISlicer[] = [];
+    private _slicerSelections = new Map<string, string[]>();
+    private _slicerOptions = new Map<string, Map<string, IGroupValue>>();
+    private _slicerViewId: string | undefined;
+
+    // Selected cell, exposed through the output properties
+    private _notifyOutputChanged: () => void;
+    private _selection: ICellSelection | undefined;
+    private _selectedRecordIds: string[] = [];
+
     public init(
         context: ComponentFramework.Context<IInputs>,
         notifyOutputChanged: () => void,
@@ -579,6 +2582,8 @@ export class CustomMatrixPCF implements ComponentFramework.StandardControl<IInpu
     ): void {
         this._container = container;
         this._context = context;
+        this._state = state;
+        this._notifyOutputChanged = notifyOutputChanged;
         this._root = createRoot(container);
     }
 
@@ -590,6 +2595,7 @@ export class CustomMatrixPCF implements ComponentFramework.StandardControl<IInpu
         }
 
         const dataset = context.parameters.sampleDataSet;
+        const localizer = this.createLocalizer(context);
         
         // Check if dataset is loaded
         if (!dataset || !dataset.columns || dataset.columns.length === 0) {
@@ -599,130 +2605,938 @@ export class CustomMatrixPCF implements ComponentFramework.StandardControl<IInpu
                     verticalAlign: "center", 
                     style: { padding: 20 } 
                 },
-                    React.createElement(Text, { variant: "large" }, "Dataset not configured")
+                    React.createElement(Text, { variant: "large" }, localizer.getString('DatasetNotConfigured'))
                 )
             );
             return;
         }
 
+        const maxRecords = context.parameters.maxRecords?.raw && context.parameters.maxRecords.raw > 0
+            ? context.parameters.maxRecords.raw
+            : DEFAULT_MAX_RECORDS;
+
+        // Keep requesting pages until the whole view (or the record cap) is loaded
+        if (this.addCurrencyColumn(context, dataset) || this.loadRemainingPages(dataset, maxRecords)) {
+            this.renderLoading(dataset);
+            return;
+        }
+
+        this.loadMetadata(context, dataset);
+
         if (!dataset.sortedRecordIds || dataset.sortedRecordIds.length === 0) {
+            // Filters that leave nothing to show can be cleared from here
             this._root.render(
                 React.createElement(Stack, { 
                     horizontalAlign: "center", 
                     verticalAlign: "center", 
+                    tokens: { childrenGap: 12 },
                     style: { padding: 20 } 
                 },
-                    React.createElement(Text, { variant: "large" }, "No records to display")
+                    React.createElement(Text, { variant: "large" }, localizer.getString('NoRecords')),
+                    this._slicerSelections.size > 0 && React.createElement(DefaultButton, {
+                        text: localizer.getString('Filter_ClearAll'),
+                        onClick: () => this.clearSlicerFilters()
+                    })
                 )
             );
             return;
         }
 
         // Get configuration from input properties
-        const groupByRow = context.parameters.groupByRow.raw || "";
-        const groupByColumn = context.parameters.groupByColumn.raw || "";
         const valueField = context.parameters.valueField.raw || "";
         const aggregationTypeValue = context.parameters.aggregationType.raw;
         
         // Map enum value to aggregation type
-        const aggregationTypeMap: Record<string, 'COUNT' | 'SUM' | 'AVG' | 'MIN' | 'MAX'> = {
+        const aggregationTypeMap: Record<string, AggregationType> = {
             '0': 'COUNT',
             '1': 'SUM',
             '2': 'AVG',
             '3': 'MIN',
-            '4': 'MAX'
+            '4': 'MAX',
+            '5': 'DISTINCTCOUNT',
+            '6': 'MEDIAN',
+            '7': 'PERCENTILE',
+            '8': 'STDDEV',
+            '9': 'VARIANCE'
         };
+        const percentileValue = context.parameters.percentile?.raw;
         
         const showTotals = context.parameters.showTotals.raw !== false;
         const showTitle = context.parameters.showTitle.raw !== false;
-        
-        const config: IPivotConfig = {
-            groupByRow,
-            groupByColumn,
-            valueField,
-            aggregationType: aggregationTypeMap[aggregationTypeValue] || 'COUNT'
+        const measuresOnRows = context.parameters.measuresOnRows?.raw === true;
+
+        // Map enum value to date grouping
+        const dateGroupingMap: Record<string, DateGrouping> = {
+            '0': 'DAY',
+            '1': 'WEEK',
+            '2': 'MONTH',
+            '3': 'QUARTER',
+            '4': 'YEAR',
+            '5': 'FISCAL_QUARTER',
+            '6': 'FISCAL_YEAR',
+            '7': 'DAY_OF_WEEK'
+        };
+        const rowDateGrouping = dateGroupingMap[context.parameters.rowDateGrouping?.raw] || 'DAY';
+        const columnDateGrouping = dateGroupingMap[context.parameters.columnDateGrouping?.raw] || 'DAY';
+        const fiscalYearStartMonthValue = context.parameters.fiscalYearStartMonth?.raw;
+        const fiscalYearStartMonth = fiscalYearStartMonthValue && fiscalYearStartMonthValue >= 1 && fiscalYearStartMonthValue <= 12
+            ? Math.floor(fiscalYearStartMonthValue)
+            : 1;
+        const showEmptyPeriods = context.parameters.showEmptyPeriods?.raw === true;
+        const splitMultiSelect = context.parameters.splitMultiSelect?.raw === true;
+        const allowLayoutChanges = context.parameters.allowLayoutChanges?.raw === true;
+        const filterDimensions = context.parameters.filterDimensions?.raw === true;
+
+        // Map enum value to how sibling groups are ordered
+        const groupOrderMap: Record<string, GroupOrder> = {
+            '0': 'VALUE',
+            '1': 'LABEL',
+            '2': 'CUSTOM'
+        };
+        const rowGroupOrder = groupOrderMap[context.parameters.rowGroupOrder?.raw] || 'VALUE';
+        const columnGroupOrder = groupOrderMap[context.parameters.columnGroupOrder?.raw] || 'VALUE';
+
+        // Map enum value to where "(Blank)" groups go, on rows and columns alike
+        const blankPlacementMap: Record<string, BlankPlacement> = {
+            '0': 'SORTED',
+            '1': 'FIRST',
+            '2': 'LAST',
+            '3': 'HIDDEN'
+        };
+        const blankPlacement = blankPlacementMap[context.parameters.blankGroups?.raw] || 'SORTED';
+        const blankLabel = context.parameters.blankLabel?.raw?.trim() || undefined;
+
+        // Map enum value to what cells without a value show
+        const emptyCellDisplayMap: Record<string, EmptyCellDisplay> = {
+            '0': 'DASH',
+            '1': 'ZERO',
+            '2': 'EMPTY'
+        };
+        const emptyCellDisplay = emptyCellDisplayMap[context.parameters.emptyCells?.raw] || 'DASH';
+        const emptyValuesAsZero = context.parameters.emptyValuesAsZero?.raw === true;
+        const hideEmptyValue = context.parameters.hideEmpty?.raw;
+        const hideEmptyRows = hideEmptyValue === '1' || hideEmptyValue === '3';
+        const hideEmptyColumns = hideEmptyValue === '2' || hideEmptyValue === '3';
+
+        // Top N: keep the N largest groups per level and fold the rest into "(Other)"
+        const rowTopNValue = context.parameters.rowTopN?.raw;
+        const rowTopN = rowTopNValue && rowTopNValue > 0 ? Math.floor(rowTopNValue) : undefined;
+        const columnTopNValue = context.parameters.columnTopN?.raw;
+        const columnTopN = columnTopNValue && columnTopNValue > 0 ? Math.floor(columnTopNValue) : undefined;
+
+        // Map enum value to drill-through mode
+        const drillThroughModeMap: Record<string, DrillThroughMode> = {
+            '0': 'NONE',
+            '1': 'SELECT',
+            '2': 'PANEL'
+        };
+        const drillThroughMode = drillThroughModeMap[context.parameters.drillThroughMode?.raw] || 'PANEL';
+
+        // Map enum value to the view shown until the user picks another one
+        const viewMap: Record<string, MatrixView> = {
+            '0': 'MATRIX',
+            '1': 'CLUSTERED_BAR',
+            '2': 'STACKED_BAR',
+            '3': 'LINE',
+            '4': 'PERCENT_STACKED_BAR'
+        };
+        const defaultView = viewMap[context.parameters.defaultView?.raw] || 'MATRIX';
+        const showViewToggle = context.parameters.showViewToggle?.raw !== false;
+        const viewStorageKey = this.getLayoutStorageKey(context, VIEW_STORAGE_KEY);
+        if (viewStorageKey !== this._viewStorageKey) {
+            this._viewStorageKey = viewStorageKey;
+            this._view = this.loadView(viewStorageKey);
+        }
+
+        // Map enum value to how values are presented
+        const showValuesAsMap: Record<string, ShowValuesAs> = {
+            '0': 'VALUE',
+            '1': 'PERCENT_OF_ROW',
+            '2': 'PERCENT_OF_COLUMN',
+            '3': 'PERCENT_OF_GRAND',
+            '4': 'RUNNING_TOTAL',
+            '5': 'DIFFERENCE',
+            '6': 'PERCENT_DIFFERENCE',
+            '7': 'RANK_IN_ROW',
+            '8': 'RANK_IN_COLUMN'
+        };
+        const showValuesAs = showValuesAsMap[context.parameters.showValuesAs?.raw] || 'VALUE';
+        const aggregateInBaseCurrency = context.parameters.currencyAggregation?.raw === '1';
+
+        // Map enum value to the number of colors in the color scale
+        const colorScaleMap: Record<string, number> = {
+            '1': 2,
+            '2': 3
         };
+        const colorScaleColorCount = colorScaleMap[context.parameters.colorScale?.raw];
+
+        // The user's layout; choices of fields that are no longer in the view are ignored
+        if (allowLayoutChanges) {
+            const layoutStorageKey = this.getLayoutStorageKey(context);
+            if (layoutStorageKey !== this._layoutStorageKey) {
+                this._layoutStorageKey = layoutStorageKey;
+                this._layout = this.loadLayout(layoutStorageKey);
+            }
+        }
+        const layout: IUserLayout = allowLayoutChanges ? this._layout : {};
+        const isViewColumn = (fieldName: string): boolean => dataset.columns.some(col => col.name === fieldName);
+
+        // Swapping rows and columns moves each axis with its date grouping, bins, group order and Top N
+        const configuredRowAxis = {
+            fieldList: context.parameters.groupByRow.raw || '',
+            dateGrouping: rowDateGrouping,
+            numericBins: context.parameters.rowNumericBins?.raw,
+            groupOrder: rowGroupOrder,
+            customOrder: parseCustomOrder(context.parameters.rowCustomOrder?.raw),
+            splitMultiSelect,
+            blankPlacement,
+            blankLabel,
+            topN: rowTopN
+        };
+        const configuredColumnAxis = {
+            fieldList: context.parameters.groupByColumn.raw || '',
+            dateGrouping: columnDateGrouping,
+            numericBins: context.parameters.columnNumericBins?.raw,
+            groupOrder: columnGroupOrder,
+            customOrder: parseCustomOrder(context.parameters.columnCustomOrder?.raw),
+            splitMultiSelect,
+            blankPlacement,
+            blankLabel,
+            topN: columnTopN
+        };
+        const [rowAxis, columnAxis] = layout.axesSwapped
+            ? [configuredColumnAxis, configuredRowAxis]
+            : [configuredRowAxis, configuredColumnAxis];
+        const rowFieldList = layout.groupByRow && isViewColumn(layout.groupByRow) ? layout.groupByRow : rowAxis.fieldList;
+        const columnFieldList = layout.groupByColumn && isViewColumn(layout.groupByColumn) ? layout.groupByColumn : columnAxis.fieldList;
+
+        const layoutValueField = layout.valueField;
+        const layoutMeasure = layoutValueField !== undefined && layout.aggregationType &&
+            (layoutValueField === '' || isViewColumn(layoutValueField)) &&
+            getAvailableAggregationTypes(dataset.columns.find(col => col.name === layoutValueField)?.dataType)
+                .includes(layout.aggregationType)
+            ? { valueField: layoutValueField, aggregationType: layout.aggregationType }
+            : undefined;
 
         try {
-            // Transform dataset to pivot structure
-            const pivotData = transformDatasetToPivot(dataset, config);
-            
-            // Get value column for formatting
-            const valueColumn = dataset.columns.find(col => col.name === config.valueField);
-            
-            if (!valueColumn) {
-                throw new Error(`Value field '${config.valueField}' not found in dataset columns`);
+            const rowBinning = rowAxis.numericBins ? parseNumericBinning(rowAxis.numericBins, localizer) : undefined;
+            const columnBinning = columnAxis.numericBins ? parseNumericBinning(columnAxis.numericBins, localizer) : undefined;
+            const formatter = this.createValueFormatter(context);
+            const conditionalFormatting: IConditionalFormatting = {
+                colorScale: colorScaleColorCount
+                    ? parseColorScale(context.parameters.colorScaleColors?.raw, colorScaleColorCount, localizer)
+                    : undefined,
+                rules: parseFormattingRules(context.parameters.formattingRules?.raw, localizer)
+            };
+            if (rowGroupOrder === 'CUSTOM' && configuredRowAxis.customOrder.length === 0) {
+                throw new Error(localizer.getString('Error_RowCustomOrderEmpty'));
             }
-            
-            // Get columns for title generation
-            const rowColumn = dataset.columns.find(col => col.name === config.groupByRow);
-            const columnColumn = dataset.columns.find(col => col.name === config.groupByColumn);
-            
-            // Generate title text
-            const aggregationDisplayNames: Record<string, string> = {
-                'COUNT': 'Count',
-                'SUM': 'Sum',
-                'AVG': 'Average',
-                'MIN': 'Minimum',
-                'MAX': 'Maximum'
+            if (columnGroupOrder === 'CUSTOM' && configuredColumnAxis.customOrder.length === 0) {
+                throw new Error(localizer.getString('Error_ColumnCustomOrderEmpty'));
+            }
+            const groupByRow = parseFieldList(rowFieldList, rowAxis.dateGrouping, localizer, rowBinning, rowAxis);
+            const groupByColumn = parseFieldList(columnFieldList, columnAxis.dateGrouping, localizer, columnBinning, columnAxis);
+
+            // The table's plural display name from its metadata, e.g. "Opportunities"
+            const tableDisplayName = this._entityDisplayName ?? localizer.getString('Records');
+
+            const getFieldDisplayName = (fieldName: string): string => {
+                return dataset.columns.find(col => col.name === fieldName)?.displayName || fieldName;
             };
-            
-            // Get the entity display name from the dataset
-            // The entity reference name contains the plural display name
-            let tableDisplayName = 'Records';
-            const datasetExt = dataset as ComponentFramework.PropertyTypes.DataSet & {
-                getEntityReferenceName?: () => string;
+
+            // The user's choice in the layout panel comes first, then the Measures property,
+            // then the single Value Field / Aggregation Type. Calculated measures follow the
+            // configured ones; with only calculated measures, an empty Value Field adds no count.
+            const configuredMeasure = {
+                valueField,
+                aggregationType: aggregationTypeMap[aggregationTypeValue] || 'COUNT'
             };
-            if (datasetExt.getEntityReferenceName) {
-                tableDisplayName = datasetExt.getEntityReferenceName();
-            } else if (dataset.getTargetEntityType) {
-                const entityType = dataset.getTargetEntityType();
-                // Format the logical name (e.g., "contact" -> "Contacts")
-                if (entityType) {
-                    tableDisplayName = entityType.charAt(0).toUpperCase() + entityType.slice(1) + 's';
-                }
+            const calculatedMeasures = context.parameters.calculatedMeasures?.raw
+                ? parseCalculatedMeasures(context.parameters.calculatedMeasures.raw, localizer)
+                : [];
+            const singleMeasures: IMeasureConfig[] = layoutMeasure || valueField || calculatedMeasures.length === 0
+                ? [{ ...(layoutMeasure ?? configuredMeasure), label: '', percentile: percentileValue ?? undefined }]
+                : [];
+            const hasConfiguredMeasures = !!context.parameters.measures?.raw || calculatedMeasures.length > 0;
+            const measureDefinitions: IMeasureConfig[] = layoutMeasure
+                ? singleMeasures
+                : [
+                    ...(context.parameters.measures?.raw ? parseMeasureList(context.parameters.measures.raw, localizer) : singleMeasures),
+                    ...calculatedMeasures
+                ];
+
+            // Currency measures can read the field's base currency twin (e.g. estimatedvalue_base)
+            // so amounts in different transaction currencies are not added together
+            const currencyMeasureDefinitions = aggregateInBaseCurrency
+                ? measureDefinitions.map(measure => {
+                    const column = dataset.columns.find(col => col.name === measure.valueField);
+                    if (column?.dataType !== 'Currency' || measure.valueField.endsWith('_base')) {
+                        return measure;
+                    }
+                    const baseField = `${measure.valueField}_base`;
+                    if (!dataset.columns.some(col => col.name === baseField)) {
+                        throw new Error(localizer.getString('Error_BaseCurrencyColumnMissing', baseField));
+                    }
+                    return { ...measure, valueField: baseField };
+                })
+                : measureDefinitions;
+
+            // Date fields mention their grouping, e.g. "Created On (Month)"
+            const getGroupFieldDisplayName = (field: IGroupField): string => {
+                const displayName = field.column.displayName || field.column.name;
+                return field.dateGrouping
+                    ? localizer.getString('FieldWithDateGrouping', displayName, localizer.getString(dateGroupingDisplayNameKeys[field.dateGrouping]))
+                    : displayName;
+            };
+
+            // Measures without an explicit label read "Sum of Est. Revenue" or "Count of Opportunities"
+            const getValueDisplayName = (measure: IMeasureConfig): string =>
+                measure.valueField ? getFieldDisplayName(measure.valueField) : tableDisplayName;
+            const measures: IMeasureConfig[] = currencyMeasureDefinitions.map(measure => ({
+                ...measure,
+                label: measure.label || localizer.getString('MeasureLabel', getAggregationDisplayName(measure, localizer), getValueDisplayName(measure))
+            }));
+
+            // Rules for the configured measures do not apply to a measure the user picked instead
+            const isUnknownRule = (rule: IFormattingRule): boolean =>
+                !!rule.measureLabel && !measures.some(measure => measure.label === rule.measureLabel);
+            const unknownRule = conditionalFormatting.rules.find(isUnknownRule);
+            if (unknownRule && !layoutMeasure) {
+                throw new Error(localizer.getString('Error_UnknownRuleMeasure', unknownRule.measureLabel as string));
             }
+            conditionalFormatting.rules = conditionalFormatting.rules.filter(rule => !isUnknownRule(rule));
+
+            const config: IPivotConfig = {
+                groupByRow,
+                groupByColumn,
+                measures,
+                fiscalYearStartMonth,
+                showEmptyPeriods,
+                formatter,
+                localizer,
+                fieldPrecisions: this._fieldPrecisions,
+                rowTopN: rowAxis.topN,
+                columnTopN: columnAxis.topN,
+                emptyValuesAsZero,
+                hideEmptyRows,
+                hideEmptyColumns,
+                currencyField: aggregateInBaseCurrency ? undefined : CURRENCY_FIELD
+            };
+
+            // Transform dataset to pivot structure, then present values as configured
+            const pivotData = this.getPivotData(context, config, maxRecords, showValuesAs);
+            const isTruncated = dataset.sortedRecordIds.length > maxRecords || dataset.paging.hasNextPage;
             
-            const aggregationDisplay = aggregationDisplayNames[config.aggregationType] || config.aggregationType;
-            const valueFieldDisplay = valueColumn.displayName || config.valueField;
-            const rowFieldDisplay = rowColumn?.displayName || config.groupByRow;
-            const columnFieldDisplay = columnColumn?.displayName || config.groupByColumn;
-            
-            const titleText = `${tableDisplayName}: ${aggregationDisplay} of ${valueFieldDisplay} by ${rowFieldDisplay} and ${columnFieldDisplay}`;
+            // Generate title text from the maker's template or the default one, joining the
+            // display names of every measure and hierarchy level
+            const measureLabels = measures.map(measure => measure.label).join(', ');
+            const titleText = fillPlaceholders(context.parameters.titleTemplate?.raw || localizer.getString('TitleTemplate'), {
+                entity: tableDisplayName,
+                measure: showValuesAs !== 'VALUE'
+                    ? localizer.getString('MeasureShownAs', measureLabels, localizer.getString(showValuesAsDisplayNameKeys[showValuesAs]))
+                    : measureLabels,
+                aggregation: Array.from(new Set(measures.map(measure => getAggregationDisplayName(measure, localizer)))).join(', '),
+                value: Array.from(new Set(measures.map(getValueDisplayName))).join(', '),
+                row: pivotData.rowFields.map(getGroupFieldDisplayName).join(' > '),
+                column: pivotData.columnFields.map(getGroupFieldDisplayName).join(' > ')
+            });
+
+            // Slicers: the maker's slicer fields, then the row and column fields when they can be filtered
+            const slicerFields = context.parameters.slicerFields?.raw
+                ? findGroupFields(createDataSetSource(dataset),
+                    parseFieldList(context.parameters.slicerFields.raw, 'YEAR', localizer, undefined, { blankLabel }), 'Slicer',
+                    dataset.sortedRecordIds, this._fieldPrecisions, localizer)
+                : [];
+            const unsupportedSlicer = slicerFields.find(field => !isSlicerSupported(field));
+            if (unsupportedSlicer) {
+                throw new Error(localizer.getString('Error_UnsupportedSlicer', unsupportedSlicer.column.name));
+            }
+            if (filterDimensions) {
+                slicerFields.push(...[...pivotData.rowFields, ...pivotData.columnFields].filter(isSlicerSupported));
+            }
+            const slicers = this.getSlicers(dataset, slicerFields, maxRecords, fiscalYearStartMonth, formatter, localizer, getGroupFieldDisplayName);
             
             // Render React component
             this._root.render(
                 React.createElement(PivotTable, { 
                     pivotData,
-                    valueColumn,
-                    aggregationType: config.aggregationType,
+                    measuresOnRows,
+                    drillThroughMode,
+                    onSelectRecords: (recordIds: string[]) => dataset.setSelectedRecordIds(recordIds),
+                    onOpenRecord: (record: IRecordReference) => this.openRecord(record),
+                    getRecordReference: (recordId: string) => this.getRecordReference(dataset, recordId),
                     showTotals,
                     showTitle,
-                    titleText
+                    titleText,
+                    truncatedAt: isTruncated ? maxRecords : undefined,
+                    conditionalFormatting,
+                    emptyCellDisplay,
+                    formatter,
+                    localizer,
+                    showExport: context.parameters.showExport?.raw !== false,
+                    layout: allowLayoutChanges ? {
+                        fields: dataset.columns.map(col => ({
+                            name: col.name,
+                            displayName: col.displayName || col.name,
+                            dataType: col.dataType
+                        })),
+                        groupByRow: rowFieldList,
+                        groupByColumn: columnFieldList,
+                        ...(layoutMeasure ?? (hasConfiguredMeasures
+                            ? { valueField: undefined, aggregationType: undefined }
+                            : configuredMeasure)),
+                        hasConfiguredMeasures,
+                        percentile: percentileValue ?? undefined,
+                        isCustomized: Object.keys(this._layout).length > 0,
+                        onChange: (change: IUserLayout) => this.saveLayout({ ...this._layout, ...change }),
+                        onSwap: () => this.saveLayout({
+                            ...this._layout,
+                            groupByRow: this._layout.groupByColumn,
+                            groupByColumn: this._layout.groupByRow,
+                            axesSwapped: !this._layout.axesSwapped || undefined
+                        }),
+                        onReset: () => this.saveLayout({})
+                    } : undefined,
+                    filterBar: slicers.length > 0 ? {
+                        slicers,
+                        onChange: (slicerKey: string, selectedIds: string[]) => this.setSlicerSelection(slicerKey, selectedIds),
+                        onClear: () => this.clearSlicerFilters()
+                    } : undefined,
+                    onSelectCell: (selection: ICellSelection | undefined, recordIds: string[]) => {
+                        this._selection = selection;
+                        this._selectedRecordIds = recordIds;
+                        this._notifyOutputChanged();
+                    },
+                    view: (showViewToggle ? this._view : undefined) ?? defaultView,
+                    onViewChange: showViewToggle ? (view: MatrixView) => this.saveView(view) : undefined
                 })
             );
         } catch (error) {
-            // Display error message
+            // Display error message; a layout chosen by the user can be reset from here
             this._root.render(
                 React.createElement(Stack, { 
                     horizontalAlign: "center", 
                     verticalAlign: "center", 
+                    tokens: { childrenGap: 12 },
                     style: { padding: 20 } 
                 },
                     React.createElement(Text, { 
                         variant: "large", 
                         style: { color: '#a4262c' } 
-                    }, `Error: ${error instanceof Error ? error.message : String(error)}`)
+                    }, localizer.getString('ErrorMessage', error instanceof Error ? error.message : String(error))),
+                    allowLayoutChanges && Object.keys(this._layout).length > 0 && React.createElement(DefaultButton, {
+                        text: localizer.getString('Layout_ResetLayout'),
+                        onClick: () => this.saveLayout({})
+                    })
                 )
             );
         }
     }
 
+    /**
+     * Builds the slicers with every group seen since the view was loaded, so values that the
+     * current filters exclude can still be picked. Selections of slicers that are gone, e.g.
+     * after the user changed the layout, are dropped and the filters applied again.
+     */
+    private getSlicers(
+        dataset: ComponentFramework.PropertyTypes.DataSet,
+        fields: IGroupField[],
+        maxRecords: number,
+        fiscalYearStartMonth: number,
+        formatter: IValueFormatter,
+        localizer: ILocalizer,
+        getLabel: (field: IGroupField) => string
+    ): ISlicer[] {
+        const viewId = dataset.getViewId ? dataset.getViewId() : '';
+        if (viewId !== this._slicerViewId) {
+            this._slicerViewId = viewId;
+            this._slicerOptions.clear();
+        }
+
+        const recordIds = dataset.sortedRecordIds.slice(0, maxRecords);
+        const slicers: ISlicer[] = [];
+        fields.forEach(field => {
+            const key = `${field.column.name}:${field.dateGrouping ?? ''}`;
+            if (slicers.some(slicer => slicer.key === key)) {
+                return;
+            }
+
+            const options = this._slicerOptions.get(key) ?? new Map<string, IGroupValue>();
+            this._slicerOptions.set(key, options);
+            recordIds.forEach(recordId => {
+                const value = getGroupValue(dataset.records[recordId], field, fiscalYearStartMonth, formatter, localizer);
+                options.set(value.id, value);
+            });
+
+            // Options are listed in the order the field's groups would be
+            const optionGroups: IPivotGroup[] = Array.from(options.values()).map(value => ({
+                key: value.id,
+                label: value.label,
+                sortValue: value.sortValue,
+                isBlank: value.isBlank,
+                level: 0,
+                children: []
+            }));
+            slicers.push({
+                key,
+                label: getLabel(field),
+                field,
+                options: sortGroupTree(optionGroups, [field]).map(id => options.get(id) as IGroupValue),
+                selectedIds: this._slicerSelections.get(key) ?? []
+            });
+        });
+
+        this._slicers = slicers;
+        const staleKeys = Array.from(this._slicerSelections.keys()).filter(key => !slicers.some(slicer => slicer.key === key));
+        if (staleKeys.length > 0) {
+            staleKeys.forEach(key => this._slicerSelections.delete(key));
+            this.applySlicerFilters();
+        }
+        return slicers;
+    }
+
+    private setSlicerSelection(slicerKey: string, selectedIds: string[]): void {
+        if (selectedIds.length > 0) {
+            this._slicerSelections.set(slicerKey, selectedIds);
+        } else {
+            this._slicerSelections.delete(slicerKey);
+        }
+        this.applySlicerFilters();
+    }
+
+    private clearSlicerFilters(): void {
+        this._slicerSelections.clear();
+        this.applySlicerFilters();
+    }
+
+    /**
+     * Pushes the slicer selections to the dataset as a filter on top of the view's own
+     * filter and reloads it, so records are filtered on the server
+     */
+    private applySlicerFilters(): void {
+        const dataset = this._context.parameters.sampleDataSet;
+        const formatter = this.createValueFormatter(this._context);
+        const filters = this._slicers
+            .filter(slicer => this._slicerSelections.has(slicer.key))
+            .map(slicer => {
+                const options = this._slicerOptions.get(slicer.key);
+                const values = (this._slicerSelections.get(slicer.key) ?? [])
+                    .map(id => options?.get(id))
+                    .filter((value): value is IGroupValue => value !== undefined);
+                return getSlicerFilter(slicer.field, values, formatter);
+            });
+
+        if (filters.length > 0) {
+            dataset.filtering.setFilter({ filterOperator: FILTER_AND, conditions: [], filters });
+        } else {
+            dataset.filtering.clearFilter();
+        }
+
+        // The filtered view is paged in again from its first page
+        this._pendingPageRecordCount = undefined;
+        dataset.refresh();
+    }
+
+    /**
+     * Layouts are stored per user, table and maker configuration, so changing the control's
+     * properties starts users from the new defaults. The chosen view is stored the same way
+     * under its own prefix.
+     */
+    private getLayoutStorageKey(context: ComponentFramework.Context<IInputs>, prefix = LAYOUT_STORAGE_KEY): string {
+        const { parameters } = context;
+        return [
+            prefix,
+            context.userSettings.userId,
+            parameters.sampleDataSet.getTargetEntityType?.(),
+            parameters.groupByRow.raw,
+            parameters.groupByColumn.raw,
+            parameters.valueField.raw,
+            parameters.aggregationType.raw,
+            parameters.measures?.raw,
+            parameters.calculatedMeasures?.raw
+        ].map(part => part ?? '').join('|');
+    }
+
+    /**
+     * Restores the layout from the control state, which the platform keeps while the user
+     * navigates within the app, or else from local storage
+     */
+    private loadLayout(storageKey: string): IUserLayout {
+        const saved = this._state?.[LAYOUT_STORAGE_KEY] as { storageKey: string; layout: IUserLayout } | undefined;
+        if (saved?.storageKey === storageKey) {
+            return saved.layout;
+        }
+
+        try {
+            const stored = window.localStorage.getItem(storageKey);
+            return stored ? parseUserLayout(stored) : {};
+        } catch {
+            // Storage is unavailable or holds an unreadable value; start from the defaults
+            return {};
+        }
+    }
+
+    /**
+     * Keeps the user's layout in the control state and local storage, then renders again
+     */
+    private saveLayout(layout: IUserLayout): void {
+        // Choices set back to their default are dropped
+        const changedLayout = Object.fromEntries(
+            Object.entries(layout).filter(([, value]) => value !== undefined)
+        ) as IUserLayout;
+        const storageKey = this._layoutStorageKey ?? this.getLayoutStorageKey(this._context);
+        this._layout = changedLayout;
+        this._state = { ...this._state, [LAYOUT_STORAGE_KEY]: { storageKey, layout: changedLayout } };
+        this._context.mode.setControlState(this._state);
+
+        try {
+            if (Object.keys(changedLayout).length > 0) {
+                window.localStorage.setItem(storageKey, JSON.stringify(changedLayout));
+            } else {
+                window.localStorage.removeItem(storageKey);
+            }
+        } catch {
+            // Without local storage the layout lasts for the session only
+        }
+
+        this._context.factory.requestRender();
+    }
+
+    /**
+     * Pivots the dataset and applies Show Values As. The result is reused while the
+     * configuration and the loaded records are unchanged, e.g. when only the container
+     * was resized, so re-renders do not aggregate every record again.
+     */
+    private getPivotData(
+        context: ComponentFramework.Context<IInputs>,
+        config: IPivotConfig,
+        maxRecords: number,
+        showValuesAs: ShowValuesAs
+    ): IPivotData {
+        const dataset = context.parameters.sampleDataSet;
+        const { formatter, localizer, ...settings } = config;
+        const key = JSON.stringify([settings, maxRecords, showValuesAs, dataset.sortedRecordIds.length]);
+        const isLayoutUpdateOnly = context.updatedProperties.length > 0 &&
+            context.updatedProperties.every(property => property === 'layout');
+        const cache = this._pivotCache;
+        if (cache && cache.key === key && (isLayoutUpdateOnly ||
+            (cache.records === dataset.records && cache.sortedRecordIds === dataset.sortedRecordIds))) {
+            return cache.pivotData;
+        }
+
+        const pivotData = applyShowValuesAs(transformDatasetToPivot(dataset, { ...settings, formatter, localizer }, maxRecords), showValuesAs);
+        this._pivotCache = { key, records: dataset.records, sortedRecordIds: dataset.sortedRecordIds, pivotData };
+        return pivotData;
+    }
+
+    /**
+     * Restores the user's view from the control state or local storage; undefined until the
+     * user has picked one
+     */
+    private loadView(storageKey: string): MatrixView | undefined {
+        const saved = this._state?.[VIEW_STORAGE_KEY] as { storageKey: string; view: MatrixView } | undefined;
+        if (saved?.storageKey === storageKey) {
+            return saved.view;
+        }
+
+        try {
+            const stored = window.localStorage.getItem(storageKey);
+            return stored && stored in viewDisplayNameKeys ? stored as MatrixView : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Keeps the user's view in the control state and local storage, then renders again
+     */
+    private saveView(view: MatrixView): void {
+        const storageKey = this._viewStorageKey ?? this.getLayoutStorageKey(this._context, VIEW_STORAGE_KEY);
+        this._view = view;
+        this._state = { ...this._state, [VIEW_STORAGE_KEY]: { storageKey, view } };
+        this._context.mode.setControlState(this._state);
+
+        try {
+            window.localStorage.setItem(storageKey, view);
+        } catch {
+            // Without local storage the view lasts for the session only
+        }
+
+        this._context.factory.requestRender();
+    }
+
+    /**
+     * Gets the name and entity of a loaded record for the drill-through panel
+     */
+    private getRecordReference(dataset: ComponentFramework.PropertyTypes.DataSet, recordId: string): IRecordReference {
+        const record = dataset.records[recordId];
+        const reference = record?.getNamedReference();
+        return {
+            id: recordId,
+            name: reference?.name || '',
+            entityName: reference?.etn || dataset.getTargetEntityType()
+        };
+    }
+
+    /**
+     * Opens a drilled-through record in its main form
+     */
+    private openRecord(record: IRecordReference): void {
+        this._context.navigation.openForm({
+            entityName: record.entityName,
+            entityId: record.id
+        }).catch(() => {
+            // The user cancelled navigation or the form could not be opened; nothing to recover
+        });
+    }
+
+    /**
+     * Formats with the platform formatting API, which follows the user's language and
+     * number settings. Currency values without a symbol of their own use the base currency.
+     */
+    private createValueFormatter(context: ComponentFramework.Context<IInputs>): IValueFormatter {
+        const { formatting, userSettings } = context;
+        const baseCurrencySymbol = this._baseCurrency?.symbol ?? userSettings.numberFormattingInfo.currencySymbol;
+        return {
+            currencySymbol: baseCurrencySymbol,
+            formatInteger: value => formatting.formatInteger(value),
+            formatDecimal: (value, precision) => formatting.formatDecimal(value, precision),
+            formatCurrency: (value, precision, symbol) => formatting.formatCurrency(value, precision, symbol ?? baseCurrencySymbol),
+            getCurrencySymbol: currencyId => this._currencySymbols.get(normalizeRecordId(currencyId)),
+            formatDateShort: date => formatting.formatDateShort(date),
+            formatDateYearMonth: date => formatting.formatDateYearMonth(date),
+            getDayName: day => userSettings.dateFormattingInfo.dayNames[day],
+            getTimeZoneOffsetMinutes: date => userSettings.getTimeZoneOffsetMinutes(date)
+        };
+    }
+
+    /**
+     * Reads user-facing text from the .resx resources of the user's language. Keys missing
+     * from the resources are shown as they are, so they stand out.
+     */
+    private createLocalizer(context: ComponentFramework.Context<IInputs>): ILocalizer {
+        return createLocalizer(key => context.resources.getString(key));
+    }
+
+    /**
+     * Loads the precision of numeric columns from their metadata, the table's plural display
+     * name and the organization's base currency, then renders again. Until they arrive, or if
+     * they cannot be read, values use two decimals and the user's currency symbol, and the
+     * title names the table "Records".
+     */
+    private loadMetadata(context: ComponentFramework.Context<IInputs>, dataset: ComponentFramework.PropertyTypes.DataSet): void {
+        const entityName = dataset.getTargetEntityType ? dataset.getTargetEntityType() : '';
+        const numericFields = dataset.columns
+            .filter(column => column.dataType === 'Currency' || column.dataType === 'Decimal' || column.dataType === 'FP')
+            .map(column => column.name);
+        const metadataKey = `${entityName}|${numericFields.join(',')}`;
+        if (!entityName || metadataKey === this._metadataKey) {
+            return;
+        }
+        this._metadataKey = metadataKey;
+
+        const organizationRequest = context.webAPI.retrieveMultipleRecords(
+            'organization',
+            '?$select=pricingdecimalprecision&$expand=basecurrencyid($select=currencysymbol,currencyprecision)'
+        ).catch(() => undefined);
+        const metadataRequest = context.utils.getEntityMetadata(entityName, numericFields).catch(() => undefined);
+        const currencyRequest = context.webAPI.retrieveMultipleRecords(
+            'transactioncurrency',
+            '?$select=transactioncurrencyid,currencysymbol'
+        ).catch(() => undefined);
+
+        Promise.all([organizationRequest, metadataRequest, currencyRequest]).then(([organizations, metadata, currencies]) => {
+            if (this._destroyed || metadataKey !== this._metadataKey) {
+                return;
+            }
+
+            // Depending on the host, the plural name is a string or a localized label
+            const collectionName = metadata?.DisplayCollectionName;
+            const entityDisplayName = typeof collectionName === 'string' ? collectionName : collectionName?.UserLocalizedLabel?.Label;
+            if (typeof entityDisplayName === 'string' && entityDisplayName) {
+                this._entityDisplayName = entityDisplayName;
+            }
+
+            const organization = organizations?.entities[0];
+            const baseCurrency = organization?.basecurrencyid;
+            if (baseCurrency?.currencysymbol) {
+                this._baseCurrency = { symbol: baseCurrency.currencysymbol, precision: baseCurrency.currencyprecision ?? 2 };
+            }
+
+            // Symbols of the transaction currencies, by id
+            currencies?.entities.forEach(currency => {
+                if (currency.transactioncurrencyid && currency.currencysymbol) {
+                    this._currencySymbols.set(normalizeRecordId(currency.transactioncurrencyid), currency.currencysymbol);
+                }
+            });
+
+            // Currency precision comes from the field, the organization's pricing precision,
+            // or the currency (PrecisionSource 0, 1 and 2); the base currency stands in for the latter
+            const fieldPrecisions: Record<string, number> = {};
+            numericFields.forEach(fieldName => {
+                const attribute = metadata?.Attributes?.get?.(fieldName);
+                const descriptor = attribute?.attributeDescriptor ?? attribute;
+                const precision = descriptor?.PrecisionSource === 1 ? organization?.pricingdecimalprecision
+                    : descriptor?.PrecisionSource === 2 ? this._baseCurrency?.precision
+                    : descriptor?.Precision;
+                if (typeof precision === 'number' && precision >= 0) {
+                    fieldPrecisions[fieldName] = precision;
+                }
+            });
+            this._fieldPrecisions = fieldPrecisions;
+            context.factory.requestRender();
+            return;
+        }).catch(() => {
+            // Formatting and the title fall back to defaults; nothing to recover
+        });
+    }
+
+    /**
+     * Adds the records' transaction currency to a view with currency fields, once per view, so
+     * amounts in different currencies are told apart. Returns true while the view reloads with it.
+     */
+    private addCurrencyColumn(context: ComponentFramework.Context<IInputs>, dataset: ComponentFramework.PropertyTypes.DataSet): boolean {
+        const viewId = dataset.getViewId ? dataset.getViewId() : '';
+        if (context.parameters.currencyAggregation?.raw === '1' || !dataset.addColumn || viewId === this._currencyColumnViewId ||
+            !dataset.columns.some(column => column.dataType === 'Currency') ||
+            dataset.columns.some(column => column.name === CURRENCY_FIELD)) {
+            return false;
+        }
+        this._currencyColumnViewId = viewId;
+        dataset.addColumn(CURRENCY_FIELD);
+        dataset.refresh();
+        return true;
+    }
+
+    /**
+     * Requests the next page of the view when more records are available.
+     * Returns true while pages are still being loaded, false once every page
+     * (or the record cap) is in memory and the pivot can be built.
+     */
+    private loadRemainingPages(dataset: ComponentFramework.PropertyTypes.DataSet, maxRecords: number): boolean {
+        // A different view, fewer records or a different first record means the host has
+        // started over (a sort, refresh or filter change): abandon the previous load
+        const viewId = dataset.getViewId ? dataset.getViewId() : '';
+        const loadedCount = dataset.sortedRecordIds ? dataset.sortedRecordIds.length : 0;
+        const firstRecordId = dataset.sortedRecordIds?.[0];
+        if (viewId !== this._pagingViewId || loadedCount < this._pagingLoadedCount || firstRecordId !== this._pagingFirstRecordId) {
+            this._pagingViewId = viewId;
+            this._pageSizeRequested = false;
+            this._pendingPageRecordCount = undefined;
+            this._pageLoadStarted = false;
+        }
+        this._pagingLoadedCount = loadedCount;
+        this._pagingFirstRecordId = firstRecordId;
+
+        if (this._destroyed || dataset.error) {
+            return false;
+        }
+
+        if (dataset.loading) {
+            this._pageLoadStarted = this._pendingPageRecordCount !== undefined;
+            return true;
+        }
+
+        // Once the host has finished loading, the requested page is in (or never came), so
+        // the next page is requested even if the record count has not moved
+        if (this._pageLoadStarted) {
+            this._pageLoadStarted = false;
+            this._pendingPageRecordCount = undefined;
+        }
+
+        if (!dataset.paging || !dataset.paging.hasNextPage || loadedCount >= maxRecords) {
+            this._pendingPageRecordCount = undefined;
+            return false;
+        }
+
+        // Ask for the largest page the platform allows so fewer round trips are needed
+        if (!this._pageSizeRequested) {
+            this._pageSizeRequested = true;
+            const pageSize = Math.min(MAX_PAGE_SIZE, maxRecords);
+            if (dataset.paging.pageSize < pageSize) {
+                dataset.paging.setPageSize(pageSize);
+                this._pendingPageRecordCount = loadedCount;
+                dataset.refresh();
+                return true;
+            }
+        }
+
+        // updateView also fires for resizes while a page is in flight; only request each page once
+        if (this._pendingPageRecordCount !== loadedCount) {
+            this._pendingPageRecordCount = loadedCount;
+            dataset.paging.loadNextPage();
+        }
+        return true;
+    }
+
+    /**
+     * Renders the loading state with progress while pages are being fetched
+     */
+    private renderLoading(dataset: ComponentFramework.PropertyTypes.DataSet): void {
+        if (!this._root) {
+            return;
+        }
+
+        const loadedCount = dataset.sortedRecordIds ? dataset.sortedRecordIds.length : 0;
+        const totalCount = dataset.paging ? dataset.paging.totalResultCount : -1;
+        const formatting = this._context.formatting;
+        const localizer = this.createLocalizer(this._context);
+        const hasTotal = totalCount > 0;
+        const label = hasTotal
+            ? localizer.getString('LoadingRecordsOf', formatting.formatInteger(loadedCount), formatting.formatInteger(totalCount))
+            : localizer.getString('LoadingRecords', formatting.formatInteger(loadedCount));
+
+        this._root.render(
+            React.createElement(Stack, { 
+                horizontalAlign: "center", 
+                verticalAlign: "center", 
+                tokens: { childrenGap: 12 },
+                style: { padding: 20 } 
+            },
+                hasTotal
+                    ? React.createElement(ProgressIndicator, {
+                        label,
+                        percentComplete: Math.min(1, loadedCount / totalCount),
+                        styles: { root: { width: 300 } }
+                    })
+                    : React.createElement(Spinner, { size: SpinnerSize.large, label })
+            )
+        );
+    }
+
+    /**
+     * Outputs describing the selected cell. Keys are JSON arrays of the group ids along the
+     * row and column paths, empty for totals; every output is cleared when nothing is selected.
+     */
     public getOutputs(): IOutputs {
-        return {};
+        const selection = this._selection;
+        if (!selection) {
+            return {
+                selectedRowKey: '',
+                selectedColumnKey: '',
+                selectedRowLabel: '',
+                selectedColumnLabel: '',
+                selectedMeasure: '',
+                selectedValue: undefined,
+                selectedRecordCount: undefined,
+                selectedRecordIds: ''
+            };
+        }
+
+        return {
+            selectedRowKey: JSON.stringify(selection.rowKey !== undefined ? decodeGroupKey(selection.rowKey) : []),
+            selectedColumnKey: JSON.stringify(selection.columnKey !== undefined ? decodeGroupKey(selection.columnKey) : []),
+            selectedRowLabel: selection.rowLabel,
+            selectedColumnLabel: selection.columnLabel,
+            selectedMeasure: selection.measureLabel,
+            selectedValue: selection.value,
+            selectedRecordCount: this._selectedRecordIds.length,
+            selectedRecordIds: JSON.stringify(this._selectedRecordIds)
+        };
     }
 
     public destroy(): void {
+        this._destroyed = true;
         if (this._root) {
             this._root.unmount();
         }
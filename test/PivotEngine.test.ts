@@ -0,0 +1,197 @@
+import { describe, it } from "node:test";
+import { strict as assert } from "assert";
+import {
+    IPivotData,
+    applyShowValuesAs,
+    getCellKey,
+    getRecordIds,
+    parseFieldList,
+    parseNumericBinning
+} from "../CustomMatrixPCF/engine/PivotEngine";
+import { findGroup, getLabels, localizer, parseMeasures, pivotOpportunities } from "./fixture";
+
+/**
+ * Reads a measure's aggregate where the row and column groups of the given label paths meet;
+ * an empty path stands for the totals
+ */
+function getValue(pivot: IPivotData, measureIndex: number, rowLabels: string[], columnLabels: string[]): number | undefined {
+    const result = pivot.results[measureIndex];
+    const rowKey = rowLabels.length > 0 ? findGroup(pivot.rowGroups, ...rowLabels).key : undefined;
+    const columnKey = columnLabels.length > 0 ? findGroup(pivot.columnGroups, ...columnLabels).key : undefined;
+    if (rowKey !== undefined && columnKey !== undefined) {
+        return result.gridData.get(getCellKey(rowKey, columnKey));
+    }
+    if (rowKey !== undefined) {
+        return result.rowTotals.get(rowKey);
+    }
+    return columnKey !== undefined ? result.columnTotals.get(columnKey) : result.grandTotal;
+}
+
+describe('date buckets', () => {
+    it('groups dates into quarters in chronological order', () => {
+        const pivot = pivotOpportunities('createdon:quarter', 'region', parseMeasures('SUM(amount)'));
+
+        assert.deepEqual(getLabels(pivot.rowGroups), ['Q1 2024', 'Q2 2024', 'Q3 2024', 'Q4 2024', 'Q1 2025']);
+        assert.equal(getValue(pivot, 0, ['Q1 2024'], []), 300);
+        assert.equal(getValue(pivot, 0, ['Q2 2024'], ['East']), 50);
+        assert.equal(getValue(pivot, 0, ['Q1 2025'], []), 150);
+    });
+
+    it('names fiscal quarters after the year the fiscal year ends in', () => {
+        const pivot = pivotOpportunities('createdon:fiscalquarter', 'region', parseMeasures('COUNT(*)'), { fiscalYearStartMonth: 7 });
+
+        assert.deepEqual(getLabels(pivot.rowGroups), ['FY2024 Q3', 'FY2024 Q4', 'FY2025 Q1', 'FY2025 Q2', 'FY2025 Q3']);
+        assert.equal(getValue(pivot, 0, ['FY2025 Q1'], []), 2);
+    });
+
+    it('fills in the periods without records when showing empty periods', () => {
+        const pivot = pivotOpportunities('createdon:month', 'region', parseMeasures('SUM(amount)'), { showEmptyPeriods: true });
+
+        assert.equal(pivot.rowKeys.length, 13);
+        assert.deepEqual(getLabels(pivot.rowGroups).slice(0, 4), ['Jan 2024', 'Feb 2024', 'Mar 2024', 'Apr 2024']);
+        assert.equal(getValue(pivot, 0, ['Mar 2024'], []), undefined);
+        assert.equal(getValue(pivot, 0, ['Apr 2024'], []), 300);
+    });
+});
+
+describe('binning', () => {
+    const pivotByProbability = (binning: string): IPivotData => pivotOpportunities('probability', 'region', parseMeasures('COUNT(*)'), {
+        groupByRow: parseFieldList('probability', 'YEAR', localizer, parseNumericBinning(binning, localizer))
+    });
+
+    it('puts numbers into the ranges between breakpoints', () => {
+        const pivot = pivotByProbability('0-25, 25-50, 50+');
+
+        assert.deepEqual(getLabels(pivot.rowGroups), ['0 – 25', '25 – 50', '50+']);
+        assert.deepEqual(pivot.rowKeys.map(key => pivot.results[0].rowTotals.get(key)), [2, 2, 4]);
+    });
+
+    it('puts numbers into bins of a fixed width', () => {
+        const pivot = pivotByProbability('width:50');
+
+        assert.deepEqual(getLabels(pivot.rowGroups), ['0 – 50', '50 – 100']);
+        assert.deepEqual(pivot.rowKeys.map(key => pivot.results[0].rowTotals.get(key)), [4, 4]);
+    });
+
+    it('spreads a number of bins over the values, the last one including the maximum', () => {
+        const pivot = pivotByProbability('count:2');
+
+        assert.deepEqual(getLabels(pivot.rowGroups), ['5 – 50', '50 – 95']);
+        assert.deepEqual(pivot.rowKeys.map(key => pivot.results[0].rowTotals.get(key)), [4, 4]);
+    });
+});
+
+describe('Top N', () => {
+    it('folds the smaller groups into "(Other)", which aggregates all of their records', () => {
+        const pivot = pivotOpportunities('owner', 'region', parseMeasures('SUM(amount); AVG(amount); COUNT(*)'), { rowTopN: 2 });
+
+        assert.deepEqual(getLabels(pivot.rowGroups), ['Bob', 'Cy', '(Other)']);
+        assert.equal(getValue(pivot, 0, ['(Other)'], []), 450);
+        assert.equal(getValue(pivot, 1, ['(Other)'], []), 112.5);
+        assert.equal(getValue(pivot, 2, ['(Other)'], []), 5);
+        assert.equal(getValue(pivot, 0, ['(Other)'], ['East']), 150);
+        assert.equal(getValue(pivot, 0, [], []), 1200);
+        assert.equal(getValue(pivot, 2, [], []), 8);
+    });
+
+    it('ranks each level within its parent, ties in view order', () => {
+        const pivot = pivotOpportunities('region, owner', 'status', parseMeasures('SUM(amount); COUNT(*)'), { rowTopN: 1 });
+
+        assert.deepEqual(getLabels(pivot.rowGroups), ['West', '(Other)']);
+        assert.deepEqual(getLabels(findGroup(pivot.rowGroups, 'West').children), ['Ann', '(Other)']);
+        assert.deepEqual(getLabels(findGroup(pivot.rowGroups, '(Other)').children), ['Cy', '(Other)']);
+        assert.equal(getValue(pivot, 0, ['(Other)', '(Other)'], []), 200);
+        assert.deepEqual(getRecordIds(pivot, 1, findGroup(pivot.rowGroups, '(Other)', '(Other)').key), ['o4', 'o6', 'o7', 'o8']);
+    });
+});
+
+describe('show values as', () => {
+    const pivot = pivotOpportunities('region', 'status', parseMeasures('SUM(amount)'));
+
+    it('orders option set columns by option value', () => {
+        assert.deepEqual(getLabels(pivot.columnGroups), ['Open', 'Won', 'Lost']);
+    });
+
+    it('divides cells by their row total', () => {
+        const shares = applyShowValuesAs(pivot, 'PERCENT_OF_ROW');
+
+        assert.equal(getValue(shares, 0, ['West'], ['Open']), 200 / 600);
+        assert.equal(getValue(shares, 0, ['East'], ['Won']), 550 / 600);
+        assert.equal(getValue(shares, 0, ['West'], []), 1);
+        assert.equal(getValue(shares, 0, [], ['Won']), 950 / 1200);
+    });
+
+    it('divides cells by the grand total', () => {
+        const shares = applyShowValuesAs(pivot, 'PERCENT_OF_GRAND');
+
+        assert.equal(getValue(shares, 0, ['West'], ['Won']), 400 / 1200);
+        assert.equal(getValue(shares, 0, [], []), 1);
+    });
+
+    it('accumulates across the columns, carrying the total over empty cells', () => {
+        const runningTotals = applyShowValuesAs(pivot, 'RUNNING_TOTAL');
+
+        assert.deepEqual(['Open', 'Won', 'Lost'].map(status => getValue(runningTotals, 0, ['West'], [status])), [200, 600, 600]);
+        assert.deepEqual(['Open', 'Won', 'Lost'].map(status => getValue(runningTotals, 0, ['East'], [status])), [undefined, 550, 600]);
+    });
+
+    it('ranks the rows within each column', () => {
+        const ranks = applyShowValuesAs(pivot, 'RANK_IN_COLUMN');
+
+        assert.equal(getValue(ranks, 0, ['East'], ['Won']), 1);
+        assert.equal(getValue(ranks, 0, ['West'], ['Won']), 2);
+        assert.equal(getValue(ranks, 0, ['North'], ['Won']), undefined);
+    });
+});
+
+describe('formula evaluator', () => {
+    const pivot = pivotOpportunities('region', 'status', parseMeasures('', [
+        'Win Rate = COUNTIF(status = 1) / COUNT(*)',
+        'Won Amount = SUMIF(amount, status = "Won")',
+        'Average Won = AVGIF(amount, status = "won")',
+        'Won Share = DIVIDE(COUNTIF(status = "Won"), COUNT(amount), 0)'
+    ].join('; ')));
+
+    it('computes totals from their records rather than from the cells', () => {
+        assert.equal(getValue(pivot, 0, ['West'], []), 2 / 3);
+        assert.equal(getValue(pivot, 0, ['East'], []), 0.5);
+        assert.equal(getValue(pivot, 0, ['North'], []), 0);
+        assert.equal(getValue(pivot, 0, [], []), 0.5);
+    });
+
+    it('compares text with the displayed value, ignoring case', () => {
+        assert.equal(getValue(pivot, 1, ['East'], []), 550);
+        assert.equal(getValue(pivot, 2, ['West'], []), 200);
+    });
+
+    it('leaves an aggregate of nothing blank, unless DIVIDE gives an alternate', () => {
+        assert.equal(getValue(pivot, 2, ['North'], []), undefined);
+        assert.equal(getValue(pivot, 3, ['East'], ['Open']), 0);
+    });
+});
+
+describe('hide empty rows and columns', () => {
+    it('hides rows without a value other than zero and leaves their records out of the totals', () => {
+        const pivot = pivotOpportunities('owner', 'region', parseMeasures('SUM(amount); AVG(amount)'), { hideEmptyRows: true });
+
+        assert.deepEqual(getLabels(pivot.rowGroups), ['(Blank)', 'Ann', 'Bob', 'Cy']);
+        assert.deepEqual(getLabels(pivot.columnGroups), ['East', 'West']);
+        assert.equal(getValue(pivot, 0, [], []), 1200);
+        assert.equal(getValue(pivot, 1, [], []), 200);
+    });
+
+    it('hides a parent whose children are all hidden', () => {
+        const pivot = pivotOpportunities('region, owner', 'status', parseMeasures('SUM(amount)'), { hideEmptyRows: true });
+
+        assert.deepEqual(getLabels(pivot.rowGroups), ['East', 'West']);
+    });
+
+    it('hides empty columns and the rows left without records', () => {
+        const pivot = pivotOpportunities('owner', 'region', parseMeasures('SUM(amount); AVG(amount)'), { hideEmptyColumns: true });
+
+        assert.deepEqual(getLabels(pivot.columnGroups), ['East', 'West']);
+        assert.equal(pivot.rowGroups.some(group => group.label === 'Eve'), false);
+        assert.equal(getValue(pivot, 1, [], ['East']), 200);
+        assert.equal(getValue(pivot, 1, [], []), 200);
+    });
+});
@@ -0,0 +1,125 @@
+/**
+ * In-memory opportunities for the engine tests, pivoted through the same record source as any
+ * plain record array (see createRecordSource). Values are formatted without the machine's
+ * locale, and labels come from the control's English resources.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+    createLocalizer,
+    createRecordSource,
+    IMeasureConfig,
+    IPivotConfig,
+    IPivotData,
+    IPivotGroup,
+    IPivotSource,
+    IValueFormatter,
+    parseCalculatedMeasures,
+    parseFieldList,
+    parseMeasureList,
+    transformToPivot
+} from "../CustomMatrixPCF/engine/PivotEngine";
+
+export interface IOpportunity {
+    id: string;
+    owner: string | null;
+    region: string;
+    status: number;
+    createdon: string;
+    amount: number | null;
+    probability: number;
+}
+
+const STATUS_LABELS = ['Open', 'Won', 'Lost'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const opportunities: IOpportunity[] = [
+    { id: 'o1', owner: 'Ann', region: 'West', status: 1, createdon: '2024-01-15', amount: 100, probability: 10 },
+    { id: 'o2', owner: 'Ann', region: 'West', status: 0, createdon: '2024-02-10', amount: 200, probability: 25 },
+    { id: 'o3', owner: 'Bob', region: 'West', status: 1, createdon: '2024-04-05', amount: 300, probability: 40 },
+    { id: 'o4', owner: 'Bob', region: 'East', status: 2, createdon: '2024-05-20', amount: 50, probability: 60 },
+    { id: 'o5', owner: 'Cy', region: 'East', status: 1, createdon: '2024-08-01', amount: 400, probability: 80 },
+    { id: 'o6', owner: 'Dee', region: 'East', status: 0, createdon: '2024-08-15', amount: null, probability: 95 },
+    { id: 'o7', owner: 'Eve', region: 'North', status: 2, createdon: '2024-11-30', amount: 0, probability: 5 },
+    { id: 'o8', owner: null, region: 'East', status: 1, createdon: '2025-01-10', amount: 150, probability: 50 }
+];
+
+export function createOpportunitySource(): IPivotSource {
+    return createRecordSource(opportunities, [
+        { name: 'owner', dataType: 'SingleLine.Text' },
+        { name: 'region', dataType: 'SingleLine.Text' },
+        { name: 'status', dataType: 'OptionSet', getFormattedValue: record => STATUS_LABELS[record.status] },
+        { name: 'createdon', dataType: 'DateAndTime.DateOnly' },
+        { name: 'amount', dataType: 'Currency' },
+        { name: 'probability', dataType: 'Whole.None' }
+    ], record => record.id);
+}
+
+// Fixed formats, so labels are the same on every machine
+export const testFormatter: IValueFormatter = {
+    formatInteger: value => value.toFixed(0),
+    formatDecimal: (value, precision) => value.toFixed(precision),
+    currencySymbol: '$',
+    formatCurrency: (value, precision, symbol) => `${symbol ?? ''}${value.toFixed(precision)}`,
+    formatDateShort: date => `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`,
+    formatDateYearMonth: date => `${MONTH_NAMES[date.getMonth()]} ${date.getFullYear()}`,
+    getDayName: day => DAY_NAMES[day],
+    getTimeZoneOffsetMinutes: () => 0
+};
+
+const resources = fs.readFileSync(path.resolve('CustomMatrixPCF/strings/CustomMatrixPCF.1033.resx'), 'utf8');
+const strings = new Map(Array.from(resources.matchAll(/<data name="([^"]+)"[^>]*>\s*<value>([^<]*)<\/value>/g),
+    ([, key, value]) => [key, value]));
+
+export const localizer = createLocalizer(key => strings.get(key));
+
+/**
+ * Parses measures as written in the Measures and Calculated Measures properties
+ */
+export function parseMeasures(measureList: string, calculatedMeasures = ''): IMeasureConfig[] {
+    return [
+        ...(measureList ? parseMeasureList(measureList, localizer) : []),
+        ...(calculatedMeasures ? parseCalculatedMeasures(calculatedMeasures, localizer) : [])
+    ];
+}
+
+/**
+ * Pivots the opportunities
+ * @param rows Row fields, as in the Row Field property (e.g. 'region, owner')
+ * @param columns Column fields, as in the Column Field property
+ */
+export function pivotOpportunities(
+    rows: string,
+    columns: string,
+    measures: IMeasureConfig[],
+    options: Partial<IPivotConfig> = {}
+): IPivotData {
+    return transformToPivot(createOpportunitySource(), {
+        groupByRow: parseFieldList(rows, 'YEAR', localizer),
+        groupByColumn: parseFieldList(columns, 'YEAR', localizer),
+        measures,
+        fiscalYearStartMonth: 1,
+        showEmptyPeriods: false,
+        formatter: testFormatter,
+        localizer,
+        ...options
+    });
+}
+
+/**
+ * Finds a group by the labels of its path, e.g. ('West', 'Ann')
+ */
+export function findGroup(groups: IPivotGroup[], ...labels: string[]): IPivotGroup {
+    const [label, ...childLabels] = labels;
+    const group = groups.find(candidate => candidate.label === label);
+    if (!group) {
+        throw new Error(`No group "${label}" among ${groups.map(candidate => `"${candidate.label}"`).join(', ')}`);
+    }
+    return childLabels.length > 0 ? findGroup(group.children, ...childLabels) : group;
+}
+
+export function getLabels(groups: IPivotGroup[]): string[] {
+    return groups.map(group => group.label);
+}